@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("node:fs");
+const path = require("node:path");
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -23,6 +25,24 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * Copies the SQLite WebAssembly binary used by sql.js next to the bundle
+ * @type {import('esbuild').Plugin}
+ */
+const copySqlWasmPlugin = {
+	name: 'copy-sql-wasm',
+
+	setup(build) {
+		build.onEnd(() => {
+			fs.mkdirSync('dist', { recursive: true });
+			fs.copyFileSync(
+				require.resolve('sql.js/dist/sql-wasm.wasm'),
+				path.join('dist', 'sql-wasm.wasm'),
+			);
+		});
+	},
+};
+
 async function main() {
 	const ctx = await esbuild.context({
 		entryPoints: [
@@ -38,6 +58,7 @@ async function main() {
 		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
+			copySqlWasmPlugin,
 			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
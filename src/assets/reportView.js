@@ -0,0 +1,378 @@
+// Script of the report view (src/ui/reportView.ts)
+// Renders the report data posted by the extension, re-rendering only the
+// sections whose data changed so scroll position and expanded groups are kept
+(() => {
+  const vscode = acquireVsCodeApi();
+
+  // Filter and expanded groups are kept in the webview state, so they
+  // survive the webview being hidden and the extension being reloaded
+  const state = vscode.getState() || {};
+  const openGroups = new Set(state.openGroups || []);
+  const openFilters = new Set(state.openFilters || []);
+
+  // Data each section was last rendered with, as JSON
+  const rendered = {};
+  let firstUpdate = true;
+
+  /**
+   * Saves the webview state
+   */
+  function saveState() {
+    state.openGroups = [...openGroups];
+    state.openFilters = [...openFilters];
+    vscode.setState(state);
+  }
+
+  /**
+   * Creates an element with a class and optional text
+   */
+  function element(tag, className, text) {
+    const node = document.createElement(tag);
+    if (className) {
+      node.className = className;
+    }
+    if (text !== undefined) {
+      node.textContent = text;
+    }
+    return node;
+  }
+
+  /**
+   * Creates a button that posts a message when clicked
+   */
+  function button(text, message, className) {
+    const node = element("button", className, text);
+    node.addEventListener("click", () => vscode.postMessage(message));
+    return node;
+  }
+
+  /**
+   * Creates the placeholder shown for a section without data
+   */
+  function noData(text) {
+    return element("div", "no-data", text);
+  }
+
+  /**
+   * Creates a table with a header row and one row per item
+   */
+  function table(headers, rows) {
+    const node = element("table");
+    const head = node.createTHead().insertRow();
+    for (const header of headers) {
+      head.appendChild(element("th", "", header));
+    }
+    const body = node.createTBody();
+    for (const cells of rows) {
+      const row = body.insertRow();
+      for (const cell of cells) {
+        row.appendChild(element("td", "", cell));
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Creates a <details> element whose expanded state is remembered by key
+   */
+  function details(openKeys, key) {
+    const node = element("details");
+    node.open = openKeys.has(key);
+    node.addEventListener("toggle", () => {
+      if (node.open) {
+        openKeys.add(key);
+      } else {
+        openKeys.delete(key);
+      }
+      saveState();
+    });
+    return node;
+  }
+
+  const sections = {
+    dateRange(container, dateRange) {
+      const navigation = element("div", "date-range-navigation");
+      const previous = button("‹", {
+        command: "shiftDateRange",
+        direction: -1,
+      });
+      previous.title = "Previous period";
+      const next = button("›", { command: "shiftDateRange", direction: 1 });
+      next.title = "Next period";
+      navigation.append(
+        previous,
+        element("span", "", `Date Range: ${dateRange.label}`),
+        next,
+      );
+
+      const selector = element("div", "date-range-selector");
+      for (const { preset, label } of dateRange.presets) {
+        selector.appendChild(
+          button(
+            label,
+            { command: "changeDateRange", preset },
+            preset === dateRange.activePreset ? "active" : "",
+          ),
+        );
+      }
+
+      // Custom range, applied once both days are set
+      const custom = element("div", "date-range-custom");
+      const start = element("input");
+      start.type = "date";
+      start.value = dateRange.start;
+      start.ariaLabel = "First day";
+      const end = element("input");
+      end.type = "date";
+      end.value = dateRange.end;
+      end.ariaLabel = "Last day";
+      for (const input of [start, end]) {
+        input.addEventListener("change", () => {
+          if (start.value && end.value) {
+            vscode.postMessage({
+              command: "changeDateRange",
+              start: start.value,
+              end: end.value,
+            });
+          }
+        });
+      }
+      custom.append(start, element("span", "", "to"), end);
+
+      container.replaceChildren(navigation, selector, custom);
+    },
+
+    filters(container, filters) {
+      const nodes = filters.map((filter) => {
+        const node = details(openFilters, filter.field);
+        const summary = element("summary");
+        summary.append(
+          element("span", "", filter.label),
+          element(
+            "span",
+            "",
+            filter.selected.length > 0
+              ? `${filter.selected.length} selected`
+              : "All",
+          ),
+        );
+
+        const options = element("div", "filter-options");
+        for (const value of filter.values) {
+          const label = element("label");
+          const checkbox = element("input", "filter-option");
+          checkbox.type = "checkbox";
+          checkbox.value = value;
+          checkbox.checked = filter.selected.includes(value);
+          checkbox.addEventListener("change", () => {
+            const values = [
+              ...options.querySelectorAll(".filter-option:checked"),
+            ].map((checked) => checked.value);
+            state.filter = { ...state.filter, [filter.field]: values };
+            saveState();
+            vscode.postMessage({ command: filter.command, values });
+          });
+          label.append(checkbox, ` ${value}`);
+          options.appendChild(label);
+        }
+
+        node.append(summary, options);
+        return node;
+      });
+
+      if (filters.some((filter) => filter.selected.length > 0)) {
+        const clear = element("button", "", "Clear Filters");
+        clear.addEventListener("click", () => {
+          state.filter = {};
+          saveState();
+          vscode.postMessage({ command: "clearFilters" });
+        });
+        nodes.push(clear);
+      }
+
+      container.replaceChildren(...nodes);
+    },
+
+    summary(container, summary) {
+      const values = [
+        [summary.totalTime, "Total Time"],
+        [summary.openTime, "VS Code Open"],
+        [summary.projects, "Projects"],
+        [summary.sessions, "Sessions"],
+      ].filter(([value]) => value !== undefined);
+
+      container.replaceChildren(
+        ...values.map(([value, label]) => {
+          const node = element("div");
+          node.append(
+            element("span", "summary-value", String(value)),
+            element("span", "summary-label", label),
+          );
+          return node;
+        }),
+      );
+    },
+
+    dailyChart(container, dailyChart) {
+      container.replaceChildren(
+        ...dailyChart.map((day) => {
+          const column = element("div", "chart-column");
+          const bar = element("div", "chart-bar");
+          bar.style.height = `${day.heightPercent}%`;
+          bar.title = day.duration;
+          column.append(bar, element("div", "chart-label", day.weekday));
+          return column;
+        }),
+      );
+    },
+
+    projects(container, projects) {
+      container.replaceChildren(
+        projects.length > 0
+          ? table(
+              ["Project", "Total Time"],
+              projects.map((row) => [row.project, row.totalTime]),
+            )
+          : noData("No project data available for this period"),
+      );
+    },
+
+    branches(container, branches) {
+      container.replaceChildren(
+        branches.length > 0
+          ? table(
+              ["Branch", "Project", "Total Time"],
+              branches.map((row) => [row.branch, row.project, row.totalTime]),
+            )
+          : noData("No branch data available for this period"),
+      );
+    },
+
+    tickets(container, tickets) {
+      container.replaceChildren(
+        tickets.length > 0
+          ? table(
+              ["Ticket", "Total Time"],
+              tickets.map((row) => [row.ticket, row.totalTime]),
+            )
+          : noData("No ticket data available for this period"),
+      );
+    },
+
+    recentActivity(container, recentActivity) {
+      if (recentActivity.length === 0) {
+        container.replaceChildren(
+          noData("No activity data available for this period"),
+        );
+        return;
+      }
+
+      container.replaceChildren(
+        ...recentActivity.map((day) => {
+          const node = element("div", "day");
+          node.appendChild(element("h3", "", `${day.date} - ${day.totalTime}`));
+
+          const groups = table(["Project / File", "Duration"], []);
+          for (const group of day.groups) {
+            const cell = groups.tBodies[0].insertRow().insertCell();
+            cell.colSpan = 2;
+            cell.className = "group-cell";
+
+            const groupDetails = details(openGroups, group.key);
+            const summary = element("summary");
+            summary.append(
+              element("span", "", group.label),
+              element("strong", "", group.totalTime),
+            );
+
+            const sessions = element("table", "group-sessions");
+            const body = sessions.createTBody();
+            for (const session of group.sessions) {
+              const row = body.insertRow();
+              row.append(
+                element("td", "session-time", session.time),
+                element("td", "session-duration", session.duration),
+              );
+              const actions = element("td", "session-actions");
+              actions.appendChild(
+                button("Edit", {
+                  command: "editSession",
+                  sessionId: session.id,
+                  day: session.day,
+                }),
+              );
+              row.appendChild(actions);
+            }
+
+            groupDetails.append(summary, sessions);
+            cell.appendChild(groupDetails);
+          }
+
+          node.appendChild(groups);
+          return node;
+        }),
+      );
+    },
+
+    refreshIntervalSeconds(container, seconds) {
+      container.textContent = `Auto-refreshes every ${seconds} seconds`;
+    },
+  };
+
+  // Containers of the sections in the page
+  const containers = {
+    dateRange: "date-range",
+    filters: "filters",
+    summary: "summary",
+    dailyChart: "daily-chart",
+    projects: "projects",
+    branches: "branches",
+    tickets: "tickets",
+    recentActivity: "recent-activity",
+    refreshIntervalSeconds: "refresh-info",
+  };
+
+  /**
+   * Renders the sections whose data changed since the last update
+   */
+  function update(data) {
+    const filter = Object.fromEntries(
+      data.filters.map((filter) => [filter.field, filter.selected]),
+    );
+    const hasFilter = (value) =>
+      Object.values(value || {}).some((values) => values && values.length > 0);
+
+    // A reloaded extension starts without a filter, so restore ours
+    if (firstUpdate && !hasFilter(filter) && hasFilter(state.filter)) {
+      firstUpdate = false;
+      vscode.postMessage({ command: "restoreFilter", filter: state.filter });
+      return;
+    }
+    firstUpdate = false;
+    state.filter = filter;
+    saveState();
+
+    for (const [section, render] of Object.entries(sections)) {
+      const json = JSON.stringify(data[section]);
+      if (rendered[section] !== json) {
+        rendered[section] = json;
+        render(document.getElementById(containers[section]), data[section]);
+      }
+    }
+  }
+
+  window.addEventListener("message", (event) => {
+    if (event.data.command === "update") {
+      update(event.data.data);
+    }
+  });
+
+  document.getElementById("refreshButton").addEventListener("click", () => {
+    vscode.postMessage({ command: "refresh" });
+  });
+  document.getElementById("exportButton").addEventListener("click", () => {
+    vscode.postMessage({ command: "export" });
+  });
+
+  vscode.postMessage({ command: "ready" });
+})();
@@ -0,0 +1,356 @@
+// Script of the timeline panel (src/ui/timelinePanel.ts)
+// Renders the sessions of a day posted by the extension and posts edits back
+(() => {
+  const vscode = acquireVsCodeApi();
+
+  const MINUTE = 60 * 1000;
+  const SNAP = 5 * MINUTE; // dragged edges snap to 5 minutes
+  const MIN_GAP = MINUTE; // shorter gaps between sessions aren't shown
+
+  const track = document.getElementById("track");
+  const hours = document.getElementById("hours");
+  const details = document.getElementById("details");
+  const legend = document.getElementById("legend");
+  const colorBy = document.getElementById("color-by");
+
+  const state = vscode.getState() || { colorBy: "project" };
+  let day;
+  let selectedId;
+
+  colorBy.value = state.colorBy;
+  colorBy.addEventListener("change", () => {
+    state.colorBy = colorBy.value;
+    vscode.setState(state);
+    render();
+  });
+
+  document.getElementById("previous-day").addEventListener("click", () => {
+    vscode.postMessage({ command: "changeDay", offset: -1 });
+  });
+  document.getElementById("today").addEventListener("click", () => {
+    vscode.postMessage({ command: "changeDay", offset: 0 });
+  });
+  document.getElementById("next-day").addEventListener("click", () => {
+    vscode.postMessage({ command: "changeDay", offset: 1 });
+  });
+
+  window.addEventListener("message", (event) => {
+    const message = event.data;
+    if (message.command === "showDay") {
+      if (day?.day !== message.day) {
+        selectedId = undefined;
+      }
+      day = message;
+      render();
+    }
+  });
+
+  /**
+   * Gets the horizontal position of a moment on the day in percent
+   */
+  function position(time) {
+    return ((time - day.dayStart) / (day.dayEnd - day.dayStart)) * 100;
+  }
+
+  /**
+   * Formats a moment as HH:MM using the hours posted by the extension, so
+   * times match the day bucketing time zone
+   */
+  function formatClock(time) {
+    let hour = 0;
+    while (hour < day.hours.length - 1 && day.hours[hour + 1] <= time) {
+      hour++;
+    }
+    const minute = Math.floor((time - day.hours[hour]) / MINUTE);
+    return `${String(hour + Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+  }
+
+  /**
+   * Formats a duration in milliseconds as Xh Ym
+   */
+  function formatDuration(milliseconds) {
+    const minutes = Math.floor(milliseconds / MINUTE);
+    return minutes >= 60
+      ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+      : `${minutes}m`;
+  }
+
+  /**
+   * Gets the key a session is colored by
+   */
+  function colorKey(session) {
+    return state.colorBy === "category"
+      ? session.category || "Uncategorized"
+      : session.project;
+  }
+
+  /**
+   * Derives a stable color from a project or category name
+   */
+  function color(key) {
+    let hash = 0;
+    for (const character of key) {
+      hash = (hash * 31 + character.charCodeAt(0)) | 0;
+    }
+    return `hsl(${Math.abs(hash) % 360}, 55%, 45%)`;
+  }
+
+  /**
+   * Creates an element with a class and optional text
+   */
+  function element(tag, className, text) {
+    const node = document.createElement(tag);
+    node.className = className;
+    if (text !== undefined) {
+      node.textContent = text;
+    }
+    return node;
+  }
+
+  /**
+   * Gets the sessions of the day ordered by start time
+   */
+  function sortedSessions() {
+    return [...day.sessions].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Renders the whole timeline from the posted day
+   */
+  function render() {
+    const sessions = sortedSessions();
+
+    document.getElementById("day-title").textContent = day.isToday
+      ? `${day.day} (today)`
+      : day.day;
+
+    hours.replaceChildren(
+      ...day.hours.map((time, hour) => {
+        const tick = element("div", "hour", String(hour).padStart(2, "0"));
+        tick.style.left = `${position(time)}%`;
+        return tick;
+      }),
+    );
+
+    track.replaceChildren();
+    sessions.forEach((session, index) => {
+      const next = sessions[index + 1];
+      track.appendChild(renderSession(session, sessions[index - 1], next));
+
+      if (
+        next &&
+        !session.current &&
+        !next.current &&
+        next.start - session.end >= MIN_GAP
+      ) {
+        track.appendChild(renderGap(session, next));
+      }
+    });
+
+    if (sessions.length === 0) {
+      track.appendChild(element("div", "empty", "No sessions on this day"));
+    }
+
+    renderDetails(sessions);
+    renderLegend(sessions);
+  }
+
+  /**
+   * Renders the bar of a session with handles to drag its edges
+   */
+  function renderSession(session, previous, next) {
+    const bar = element("div", "session");
+    bar.classList.toggle("selected", session.id === selectedId);
+    bar.classList.toggle("unfocused", !session.focused);
+    bar.classList.toggle("current", session.current);
+    bar.style.backgroundColor = color(colorKey(session));
+    bar.title = `${session.project} · ${session.fileName}\n${formatClock(session.start)} - ${formatClock(session.end)} (${formatDuration(session.end - session.start)})`;
+
+    const label = element("span", "label", session.project);
+    bar.appendChild(label);
+    placeSession(bar, session.start, session.end);
+
+    bar.addEventListener("click", () => {
+      selectedId = session.id;
+      render();
+    });
+
+    if (!session.current) {
+      const minStart = previous ? previous.end : day.dayStart;
+      const maxEnd = next ? next.start : Math.min(day.dayEnd, Date.now());
+      bar.appendChild(
+        renderHandle(bar, session, "start", Math.min(minStart, session.start)),
+      );
+      bar.appendChild(
+        renderHandle(bar, session, "end", Math.max(maxEnd, session.end)),
+      );
+    }
+
+    return bar;
+  }
+
+  /**
+   * Positions a session bar between two moments
+   */
+  function placeSession(bar, start, end) {
+    bar.style.left = `${position(start)}%`;
+    bar.style.width = `${Math.max(position(end) - position(start), 0.1)}%`;
+  }
+
+  /**
+   * Renders a handle that moves the start or end of a session when dragged
+   * @param limit Earliest start or latest end, so sessions don't overlap
+   */
+  function renderHandle(bar, session, edge, limit) {
+    const handle = element("div", `handle ${edge}`);
+    let start = session.start;
+    let end = session.end;
+
+    handle.addEventListener("click", (event) => event.stopPropagation());
+    handle.addEventListener("pointerdown", (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      handle.setPointerCapture(event.pointerId);
+    });
+
+    handle.addEventListener("pointermove", (event) => {
+      if (!handle.hasPointerCapture(event.pointerId)) {
+        return;
+      }
+
+      const rect = track.getBoundingClientRect();
+      const ratio = (event.clientX - rect.left) / rect.width;
+      const raw = day.dayStart + ratio * (day.dayEnd - day.dayStart);
+      const time =
+        day.dayStart + Math.round((raw - day.dayStart) / SNAP) * SNAP;
+
+      if (edge === "start") {
+        start = Math.min(Math.max(time, limit), session.end - MINUTE);
+      } else {
+        end = Math.max(Math.min(time, limit), session.start + MINUTE);
+      }
+      placeSession(bar, start, end);
+      bar.title = `${formatClock(start)} - ${formatClock(end)} (${formatDuration(end - start)})`;
+    });
+
+    handle.addEventListener("pointerup", (event) => {
+      handle.releasePointerCapture(event.pointerId);
+      if (start !== session.start || end !== session.end) {
+        vscode.postMessage({
+          command: "updateSession",
+          id: session.id,
+          start,
+          end,
+        });
+      }
+    });
+
+    return handle;
+  }
+
+  /**
+   * Renders a gap between two sessions, which can be clicked to fill it
+   */
+  function renderGap(previous, next) {
+    const gap = element("div", "gap");
+    gap.style.left = `${position(previous.end)}%`;
+    gap.style.width = `${position(next.start) - position(previous.end)}%`;
+    gap.title = `Gap of ${formatDuration(next.start - previous.end)} - click to fill`;
+
+    gap.addEventListener("click", () => {
+      vscode.postMessage({
+        command: "fillGap",
+        start: previous.end,
+        end: next.start,
+        previousId: previous.id,
+        nextId: next.id,
+      });
+    });
+
+    return gap;
+  }
+
+  /**
+   * Renders the details of the selected session with its actions
+   */
+  function renderDetails(sessions) {
+    details.replaceChildren();
+
+    const index = sessions.findIndex((session) => session.id === selectedId);
+    const session = sessions[index];
+    if (!session) {
+      return;
+    }
+
+    const lines = [
+      `${formatClock(session.start)} - ${formatClock(session.end)} (${formatDuration(session.end - session.start)})`,
+      `${session.project} · ${session.fileName}`,
+      [session.category, session.ticket, session.notes]
+        .filter(Boolean)
+        .join(" · "),
+    ].filter(Boolean);
+    for (const line of lines) {
+      details.appendChild(element("div", "detail", line));
+    }
+
+    if (session.current) {
+      details.appendChild(
+        element("div", "detail", "This session is still being tracked."),
+      );
+      return;
+    }
+
+    const actions = element("div", "actions");
+    const edit = element("button", "", "Edit...");
+    edit.addEventListener("click", () => {
+      vscode.postMessage({ command: "editSession", id: session.id });
+    });
+    actions.appendChild(edit);
+
+    // Only adjacent sessions are merged, so no gap is billed and focused
+    // and unfocused time stay apart
+    const next = sessions[index + 1];
+    if (
+      next &&
+      !next.current &&
+      next.start - session.end < MIN_GAP &&
+      next.focused === session.focused
+    ) {
+      const merge = element("button", "", "Merge with next");
+      merge.title = `Merge with ${next.project} at ${formatClock(next.start)}`;
+      merge.addEventListener("click", () => {
+        vscode.postMessage({
+          command: "mergeSessions",
+          firstId: session.id,
+          secondId: next.id,
+        });
+      });
+      actions.appendChild(merge);
+    }
+
+    details.appendChild(actions);
+  }
+
+  /**
+   * Renders the colors used and the time per project or category
+   */
+  function renderLegend(sessions) {
+    const totals = new Map();
+    for (const session of sessions) {
+      const key = colorKey(session);
+      totals.set(key, (totals.get(key) || 0) + session.end - session.start);
+    }
+
+    legend.replaceChildren(
+      ...[...totals].map(([key, duration]) => {
+        const item = element("span", "legend-item");
+        const swatch = element("span", "swatch");
+        swatch.style.backgroundColor = color(key);
+        item.append(swatch, `${key} (${formatDuration(duration)})`);
+        return item;
+      }),
+    );
+  }
+
+  vscode.postMessage({ command: "ready" });
+})();
@@ -1,68 +1,149 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 // The module 'vscode' contains the VS Code extensibility API
 import * as vscode from "vscode";
-import * as path from "node:path";
-import * as os from "node:os";
-import * as fs from "node:fs";
-import { TimeTrackerModel } from "./models/timeTracker";
+import {
+  SESSION_CATEGORIES,
+  type TimeSession,
+  TimeTrackerModel,
+} from "./models/timeTracker";
+import { CalendarFileService } from "./services/calendarFileService";
+import { DatabaseService } from "./services/databaseService";
+import { ExportService } from "./services/exportService";
+import { ImportService } from "./services/importService";
+import {
+  STORAGE_BACKEND_KINDS,
+  type StorageBackendKind,
+} from "./services/storage/storageBackend";
+import { type ExportRequest, exportSessions } from "./ui/exportDialog";
+import { promptIdleResolution } from "./ui/idlePrompt";
+import { importSessions } from "./ui/importDialog";
 import { ReportViewProvider } from "./ui/reportView";
+import {
+  addManualEntry,
+  deleteSession,
+  editSession,
+  splitSession,
+} from "./ui/sessionEditor";
 import { StatusBarController } from "./ui/statusBarController";
+import { TimelinePanel } from "./ui/timelinePanel";
+import { showWebhookQueue } from "./ui/webhookQueue";
+import { setWebhookSecret } from "./ui/webhookSecret";
+import { FocusTracker } from "./utils/focusTracker";
 import { IdleDetector } from "./utils/idleDetection";
+import { setDayTimeZone } from "./utils/timeUtils";
 
 // This method is called when your extension is activated
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
   console.log("Time Tracking extension is now active!");
 
+  // Use the configured time zone to decide which day a session belongs to
+  const timeZone = vscode.workspace
+    .getConfiguration("timeTracking")
+    .get<string>("timeZone", "");
+  if (!setDayTimeZone(timeZone)) {
+    vscode.window.showWarningMessage(
+      `Time Tracking: Unknown time zone "${timeZone}", using the local time zone instead.`,
+    );
+  }
+
   // Initialize the time tracker model
   const timeTracker = new TimeTrackerModel(context);
+  await timeTracker.initialize();
 
   // Initialize the status bar controller
   const statusBarController = new StatusBarController(timeTracker);
   context.subscriptions.push(statusBarController);
 
   // Initialize idle detector
+  // The time of the last activity before the user went idle
+  let idleStart: Date | undefined;
   const idleDetector = new IdleDetector(
     vscode.workspace.getConfiguration("timeTracking").get("idleThreshold", 300),
     () => {
-      // When idle is detected and tracking is active, show notification
-      if (timeTracker.isTracking()) {
-        vscode.window
-          .showWarningMessage(
-            "You appear to be idle. Do you want to continue tracking time?",
-            "Continue Tracking",
-            "Stop Tracking",
-          )
-          .then((selection) => {
-            if (selection === "Stop Tracking") {
-              timeTracker.stopTracking();
-              statusBarController.stopTimer();
-              vscode.window.showInformationMessage(
-                "Time tracking stopped due to inactivity.",
-              );
-              idleDetector.clearActiveNotification();
-            } else if (selection === "Continue Tracking") {
-              // Clear the notification reference when the user manually selects "Continue Tracking"
-              idleDetector.clearActiveNotification();
-            } else if (selection) {
-              // Store the notification to dismiss it automatically on activity
-              idleDetector.setActiveNotification(selection);
-            }
-          });
+      if (!timeTracker.isTracking()) {
+        return;
+      }
+
+      const lastActivity = new Date(
+        Date.now() - idleDetector.getTimeSinceLastActivity(),
+      );
+      timeTracker.reportIdle(lastActivity);
+      const idleAction = vscode.workspace
+        .getConfiguration("timeTracking")
+        .get<string>("idleAction", "ask");
+
+      if (idleAction === "pause") {
+        // End the session at the last activity, it is resumed on return
+        timeTracker.pauseTracking(lastActivity);
+        statusBarController.stopTimer();
+        vscode.commands.executeCommand(
+          "setContext",
+          "timeTracking.isTracking",
+          false,
+        );
+        const message =
+          "Time tracking paused due to inactivity. It resumes when you return.";
+        vscode.window.showInformationMessage(message);
+        // Dismiss the notification automatically on activity
+        idleDetector.setActiveNotification({ title: message });
+      } else if (idleAction === "stop") {
+        timeTracker.stopTracking(lastActivity);
+        statusBarController.stopTimer();
+        vscode.commands.executeCommand(
+          "setContext",
+          "timeTracking.isTracking",
+          false,
+        );
+        vscode.window.showInformationMessage(
+          "Time tracking stopped due to inactivity.",
+        );
+      } else {
+        // Remember when the user went idle, the time is resolved on return
+        idleStart = lastActivity;
       }
     },
     // Add onUserReturned callback
-    () => {
-      // When user returns from idle state and tracking is active
-      if (timeTracker.isTracking()) {
-        vscode.window.showInformationMessage(
-          "Welcome back! Time tracking has continued.",
+    async () => {
+      if (timeTracker.isPaused()) {
+        timeTracker.resumeTracking();
+        statusBarController.startTimer();
+        vscode.commands.executeCommand(
+          "setContext",
+          "timeTracking.isTracking",
+          true,
         );
+        return;
       }
+
+      const idleEnd = new Date();
+      const idleSession =
+        idleStart && timeTracker.cutIdleTime(idleStart, idleEnd);
+      idleStart = undefined;
+      if (!idleSession) {
+        return;
+      }
+
+      // Ask what to do with the idle time while tracking continues
+      const projects = timeTracker
+        .getTodaySessions()
+        .map((session) => session.project)
+        .concat(idleSession.project);
+      const resolution = await promptIdleResolution(idleSession, projects);
+      timeTracker.resolveIdleTime(idleSession, resolution);
     },
   );
 
   // Add the idleDetector to context subscriptions for proper cleanup
   context.subscriptions.push(idleDetector);
 
+  // Split sessions into focused and unfocused segments if enabled
+  const focusTracker = new FocusTracker((focused, at) =>
+    timeTracker.setWindowFocused(focused, at),
+  );
+  context.subscriptions.push(focusTracker);
+
   // Check if data migration from single CSV to per-day CSVs is needed
   const hasMigrated = context.globalState.get<boolean>(
     "hasMigratedToPerDayStorage",
@@ -132,6 +213,32 @@ export function activate(context: vscode.ExtensionContext) {
   // Watch for configuration changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("timeTracking.timeZone")) {
+        vscode.window
+          .showInformationMessage(
+            "Time Tracking: The time zone change takes effect after reloading the window. Existing sessions will be moved to the day they started on in the new time zone.",
+            "Reload Window",
+          )
+          .then((selection) => {
+            if (selection === "Reload Window") {
+              vscode.commands.executeCommand("workbench.action.reloadWindow");
+            }
+          });
+      }
+
+      if (e.affectsConfiguration("timeTracking.storageBackend")) {
+        vscode.window
+          .showInformationMessage(
+            'Time Tracking: The storage backend change takes effect after reloading the window. Use "Time Tracking: Convert Storage Backend" to copy existing data first.',
+            "Reload Window",
+          )
+          .then((selection) => {
+            if (selection === "Reload Window") {
+              vscode.commands.executeCommand("workbench.action.reloadWindow");
+            }
+          });
+      }
+
       if (e.affectsConfiguration("timeTracking.autoTrack")) {
         const autoTrackEnabled = vscode.workspace
           .getConfiguration("timeTracking")
@@ -305,18 +412,7 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const categories = [
-        "Coding",
-        "Debugging",
-        "Documentation",
-        "Research",
-        "Meeting",
-        "Planning",
-        "Testing",
-        "Other",
-      ];
-
-      const category = await vscode.window.showQuickPick(categories, {
+      const category = await vscode.window.showQuickPick(SESSION_CATEGORIES, {
         placeHolder: "Select a category for the current session",
       });
 
@@ -354,6 +450,185 @@ export function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(addNotesCommand);
 
+  // Set the ticket of the current session
+  const setTicketCommand = vscode.commands.registerCommand(
+    "time-tracking.setTicket",
+    async () => {
+      if (!timeTracker.isTracking()) {
+        vscode.window.showWarningMessage(
+          "No active tracking session to set a ticket for.",
+        );
+        return;
+      }
+
+      const ticket = await vscode.window.showInputBox({
+        placeHolder: "e.g. ABC-123",
+        prompt:
+          "Ticket for the current session, leave empty to detect it from the notes or branch name",
+        value: timeTracker.getCurrentSession()?.ticket,
+      });
+
+      if (ticket !== undefined) {
+        timeTracker.setTicketForCurrentSession(ticket.trim());
+        const current = timeTracker.getCurrentSession()?.ticket;
+        vscode.window.showInformationMessage(
+          current ? `Ticket set to: ${current}` : "No ticket detected.",
+        );
+      }
+    },
+  );
+  context.subscriptions.push(setTicketCommand);
+
+  // Add, edit, delete and split saved sessions
+  context.subscriptions.push(
+    vscode.commands.registerCommand("time-tracking.addManualEntry", () =>
+      addManualEntry(timeTracker),
+    ),
+    vscode.commands.registerCommand(
+      "time-tracking.editSession",
+      (session?: TimeSession) => editSession(timeTracker, session),
+    ),
+    vscode.commands.registerCommand(
+      "time-tracking.deleteSession",
+      (session?: TimeSession) => deleteSession(timeTracker, session),
+    ),
+    vscode.commands.registerCommand(
+      "time-tracking.splitSession",
+      (session?: TimeSession) => splitSession(timeTracker, session),
+    ),
+  );
+
+  // Open the editable timeline of a day
+  context.subscriptions.push(
+    vscode.commands.registerCommand("time-tracking.openTimeline", () =>
+      TimelinePanel.show(context.extensionUri, timeTracker),
+    ),
+  );
+
+  // Export sessions of a date range, e.g. the one shown in the report
+  const exportService = new ExportService((startDate, endDate) =>
+    timeTracker.getSessionsInRange(startDate, endDate),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "time-tracking.export",
+      (request?: ExportRequest) => exportSessions(exportService, request),
+    ),
+  );
+
+  // Import sessions from the exports of other trackers
+  const importService = new ImportService(
+    (startDate, endDate) => timeTracker.getSessionsInRange(startDate, endDate),
+    (sessions) => timeTracker.importSessions(sessions),
+    () =>
+      vscode.workspace
+        .getConfiguration("timeTracking")
+        .get<number>("importOverlapThreshold", 0.5),
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("time-tracking.importSessions", () =>
+      importSessions(importService),
+    ),
+  );
+
+  // Inspect, retry and replay queued webhook events
+  context.subscriptions.push(
+    vscode.commands.registerCommand("time-tracking.showWebhookQueue", () =>
+      showWebhookQueue(timeTracker.getWebhookService().getOutbox()),
+    ),
+  );
+
+  // Store webhook secrets in the secret storage instead of the settings
+  context.subscriptions.push(
+    vscode.commands.registerCommand("time-tracking.setWebhookSecret", () =>
+      setWebhookSecret(timeTracker.getWebhookService()),
+    ),
+  );
+
+  // Keep a calendar file of the recent sessions in the storage directory
+  const calendarFileService = new CalendarFileService(
+    DatabaseService.getBaseDirectory(),
+    (startDate, endDate) => timeTracker.getSessionsInRange(startDate, endDate),
+  );
+  calendarFileService.updateConfiguration();
+  context.subscriptions.push(
+    calendarFileService,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration("timeTracking.calendarFile") ||
+        e.affectsConfiguration("timeTracking.calendarFileDays") ||
+        e.affectsConfiguration("timeTracking.calendarEvents")
+      ) {
+        calendarFileService.updateConfiguration();
+      }
+    }),
+  );
+
+  // Copy all data from one storage backend to another
+  const convertStorageCommand = vscode.commands.registerCommand(
+    "time-tracking.convertStorage",
+    async () => {
+      const current = DatabaseService.getConfiguredBackendKind();
+
+      const from = await vscode.window.showQuickPick(
+        STORAGE_BACKEND_KINDS.map((kind) => ({
+          label: kind,
+          description: kind === current ? "current" : undefined,
+        })),
+        { placeHolder: "Select the storage backend to convert from" },
+      );
+      if (!from) {
+        return;
+      }
+
+      const to = await vscode.window.showQuickPick(
+        STORAGE_BACKEND_KINDS.filter((kind) => kind !== from.label).map(
+          (kind) => ({
+            label: kind,
+            description: kind === current ? "current" : undefined,
+          }),
+        ),
+        { placeHolder: "Select the storage backend to convert to" },
+      );
+      if (!to) {
+        return;
+      }
+
+      try {
+        const count = await DatabaseService.convertStorage(
+          from.label as StorageBackendKind,
+          to.label as StorageBackendKind,
+        );
+
+        if (to.label === current) {
+          vscode.window.showInformationMessage(
+            `Converted ${count} sessions from ${from.label} to ${to.label}.`,
+          );
+          return;
+        }
+
+        const selection = await vscode.window.showInformationMessage(
+          `Converted ${count} sessions from ${from.label} to ${to.label}. Do you want to use the ${to.label} backend from now on?`,
+          "Switch Backend",
+        );
+        if (selection === "Switch Backend") {
+          await vscode.workspace
+            .getConfiguration("timeTracking")
+            .update(
+              "storageBackend",
+              to.label,
+              vscode.ConfigurationTarget.Global,
+            );
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to convert storage backend: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+  );
+  context.subscriptions.push(convertStorageCommand);
+
   // Watch for editor changes to update tracking
   const editorChangeListener = vscode.window.onDidChangeActiveTextEditor(() => {
     timeTracker.handleEditorChange();
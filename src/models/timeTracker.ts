@@ -1,7 +1,25 @@
 import * as vscode from "vscode";
 import { DatabaseService } from "../services/databaseService";
-import { WebhookService } from "../services/webhookService";
+import {
+  WebhookService,
+  getSessionEventData,
+} from "../services/webhookService";
+import {
+  getBranchCommit,
+  getGitContext,
+  readGitContext,
+  watchGitHead,
+} from "../utils/gitUtils";
 import { getCurrentProjectName } from "../utils/projectUtils";
+import { extractTicket, getTicketPatterns } from "../utils/ticketUtils";
+import {
+  addDays,
+  formatDate,
+  formatDuration,
+  getStartOfDay,
+  mergeAdjacentSessions,
+  splitSessionAtDayBoundaries,
+} from "../utils/timeUtils";
 
 /**
  * Represents a time tracking session
@@ -16,29 +34,117 @@ export interface TimeSession {
   duration: number; // duration in milliseconds
   category?: string;
   notes?: string;
+  parentId?: string; // id of the session this day segment was split from
+  focused?: boolean; // false for time the window was unfocused, only set with window focus tracking
+  repositoryRoot?: string;
+  branch?: string;
+  startCommit?: string; // HEAD commit when the session started
+  endCommit?: string; // HEAD commit when the session ended
+  ticket?: string; // issue key from the notes or branch name, or set manually
 }
 
+/**
+ * Categories offered when categorizing a session
+ */
+export const SESSION_CATEGORIES = [
+  "Coding",
+  "Debugging",
+  "Documentation",
+  "Research",
+  "Meeting",
+  "Planning",
+  "Testing",
+  "Other",
+];
+
+/**
+ * What to do with a period the user was idle
+ */
+export type IdleResolution =
+  | { action: "keep" }
+  | { action: "discard" }
+  | { action: "reassign"; category?: string; project?: string };
+
+// How often to check whether a new day started and a summary is due
+const DAY_SUMMARY_CHECK_INTERVAL = 60 * 1000;
+
 /**
  * Represents time tracking data for the extension
  */
 export class TimeTrackerModel {
   private sessions: TimeSession[] = [];
   private currentSession: TimeSession | undefined;
+  // Session that was paused while the user was idle, resumed on return
+  private pausedSession: TimeSession | undefined;
+  // Whether the window is focused, undefined without window focus tracking
+  private windowFocused: boolean | undefined;
+  // Watches HEAD of the current session's repository for branch changes
+  private gitHeadWatcher: vscode.Disposable | undefined;
+  private watchedRepository: string | undefined;
+  // Ticket set with the setTicket command, kept until the branch changes
+  private ticketOverride: string | undefined;
   private lastActiveFile: string | undefined;
   private timer: NodeJS.Timeout | undefined;
   private updateInterval = 1000; // Update interval in ms
+  private checkpointTimer: NodeJS.Timeout | undefined;
+  // Checks for the start of a new day to send the previous day's summary
+  private daySummaryTimer: NodeJS.Timeout | undefined;
   private dbService!: DatabaseService;
   private webhookService: WebhookService;
 
   constructor(private context: vscode.ExtensionContext) {
-    // Initialize the database service
+    // Initialize the webhook service
+    this.webhookService = new WebhookService(context.secrets);
+
+    // Register extension deactivation handler to save the running session
+    // and close the database
+    context.subscriptions.push({
+      dispose: () => {
+        this.stopTracking();
+        this.gitHeadWatcher?.dispose();
+        this.daySummaryTimer && clearInterval(this.daySummaryTimer);
+        this.webhookService.dispose();
+        this.dbService?.close();
+      },
+    });
+  }
+
+  /**
+   * Opens the configured storage backend and loads today's sessions
+   * Must be called before any other method is used
+   */
+  public async initialize(): Promise<void> {
     try {
-      this.dbService = new DatabaseService();
+      this.dbService = await DatabaseService.open();
       // Load today's sessions from database
       this.loadSessions();
 
       // Check if we need to migrate from older version
       this.migrateDataIfNeeded();
+
+      // Move sessions to the right day if the day model has changed
+      this.rebucketDaysIfNeeded();
+
+      // Offer to recover sessions that were interrupted by a crash; the
+      // prompts are not awaited so they don't hold up activation
+      this.recoverOrphanedSessions().catch((error) =>
+        vscode.window.showErrorMessage(
+          `Failed to recover unfinished sessions: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+
+      // Move webhook secrets out of the settings once, then send webhook
+      // events queued while offline or before VS Code closed
+      await this.migrateWebhookSecrets();
+      this.webhookService.deliverQueuedEvents();
+
+      // Send the summary of yesterday if no window has sent it yet, and of
+      // each following day shortly after midnight
+      this.sendDaySummaryIfDue();
+      this.daySummaryTimer = setInterval(
+        () => this.sendDaySummaryIfDue(),
+        DAY_SUMMARY_CHECK_INTERVAL,
+      );
     } catch (error) {
       vscode.window.showErrorMessage(
         `Failed to initialize time tracking database: ${error instanceof Error ? error.message : String(error)}`,
@@ -46,16 +152,87 @@ export class TimeTrackerModel {
       // Fallback to empty sessions array if database fails
       this.sessions = [];
     }
+  }
 
-    // Initialize the webhook service
-    this.webhookService = new WebhookService();
+  /**
+   * Moves webhook secrets from the settings to the secret storage, then
+   * checks that they can sign events
+   */
+  private async migrateWebhookSecrets(): Promise<void> {
+    try {
+      if (await this.webhookService.migrateSecrets()) {
+        vscode.window.showInformationMessage(
+          'Webhook secrets were moved from your settings to VS Code\'s secret storage. Use "Time Tracking: Set Webhook Secret" to change them.',
+        );
+      }
+      await this.webhookService.checkSecrets();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to move webhook secrets to the secret storage: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
 
-    // Register extension deactivation handler to close database
-    context.subscriptions.push({
-      dispose: () => {
-        this.dbService.close();
-      },
-    });
+  /**
+   * Gets the checkpoint interval from settings in milliseconds
+   */
+  private getCheckpointInterval(): number {
+    const seconds = vscode.workspace
+      .getConfiguration("timeTracking")
+      .get<number>("checkpointInterval", 30);
+    return Math.max(1, seconds) * 1000;
+  }
+
+  /**
+   * Looks for sessions that were checkpointed but never ended (e.g. because
+   * VS Code crashed) and offers to save them with their last-known end time
+   */
+  private async recoverOrphanedSessions(): Promise<void> {
+    // A live window refreshes its checkpoint every interval, so a process id
+    // is only checked for reuse if its checkpoint is a few intervals old
+    const checkpoints = this.dbService.loadOrphanedCheckpoints(
+      this.getCheckpointInterval() * 3,
+    );
+
+    for (const { session, checkpointedAt } of checkpoints) {
+      const duration = checkpointedAt.getTime() - session.startTime.getTime();
+
+      const selection = await vscode.window.showWarningMessage(
+        `Time Tracking: Found an unfinished session for ${session.fileName} in ${session.project} (${formatDuration(duration)}, last saved ${checkpointedAt.toLocaleString()}). Do you want to recover it?`,
+        "Recover",
+        "Discard",
+      );
+
+      if (selection === "Recover") {
+        const recovered: TimeSession = {
+          ...session,
+          endTime: checkpointedAt,
+          duration: Math.max(0, duration),
+        };
+        try {
+          this.saveSessionSegments(recovered);
+          this.dbService.clearCheckpoint(session.id);
+        } catch (error) {
+          // Keep the checkpoint to offer the recovery again
+          vscode.window.showErrorMessage(
+            `Failed to recover session: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else if (selection === "Discard") {
+        this.dbService.clearCheckpoint(session.id);
+      }
+      // If the message was dismissed, keep the checkpoint for the next activation
+    }
+  }
+
+  /**
+   * Writes the current session to its on-disk journal
+   */
+  private checkpointCurrentSession(): void {
+    if (this.currentSession) {
+      this.updateCurrentSessionDuration();
+      this.dbService.saveCheckpoint(this.currentSession, new Date());
+    }
   }
 
   /**
@@ -99,6 +276,39 @@ export class TimeTrackerModel {
     }
   }
 
+  /**
+   * Re-files stored sessions when the time zone used for day bucketing differs
+   * from the one the data was written with. Versions before the time zone
+   * setting filed sessions by their UTC date.
+   */
+  private rebucketDaysIfNeeded(): void {
+    const timeZone =
+      vscode.workspace
+        .getConfiguration("timeTracking")
+        .get<string>("timeZone", "") || "local";
+    const bucketTimeZone = this.context.globalState.get<string>(
+      "dayBucketTimeZone",
+      "UTC",
+    );
+    if (bucketTimeZone === timeZone) {
+      return;
+    }
+
+    try {
+      const movedSessions = this.dbService.rebucketDays();
+      if (movedSessions > 0) {
+        vscode.window.showInformationMessage(
+          `Time Tracking: Moved ${movedSessions} sessions to the day they started on in the ${timeZone === "local" ? "local" : timeZone} time zone.`,
+        );
+      }
+      this.context.globalState.update("dayBucketTimeZone", timeZone);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to move sessions to their local day: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   /**
    * Starts tracking time for the current workspace or file
    */
@@ -117,33 +327,267 @@ export class TimeTrackerModel {
       this.lastActiveFile = filePath;
     }
 
-    // End current session if exists
-    this.endCurrentSession();
+    // End current session and its timers if it exists
+    this.stopTracking();
+
+    this.beginSession({ fileName, filePath, project });
+  }
+
+  /**
+   * Creates a new current session from now on and starts its timers
+   */
+  private beginSession(
+    fields: Pick<TimeSession, "fileName" | "filePath" | "project" | "category">,
+  ): void {
+    // Without an open file, use the repository of the workspace
+    const gitPath =
+      fields.filePath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const git = gitPath ? getGitContext(gitPath) : undefined;
 
-    // Create new session
     this.currentSession = {
       id: Date.now().toString(),
-      fileName,
-      filePath,
-      project,
+      ...fields,
       startTime: new Date(),
       duration: 0,
+      focused: this.windowFocused,
+      repositoryRoot: git?.repositoryRoot,
+      branch: git?.branch,
+      startCommit: git?.commit,
     };
+    this.currentSession.ticket = this.getTicket(this.currentSession);
+    this.watchRepository(git?.repositoryRoot);
 
     // Start timer to update duration
     this.timer = setInterval(
       () => this.updateCurrentSessionDuration(),
       this.updateInterval,
     );
+
+    // Periodically checkpoint the session so it survives a crash
+    this.checkpointCurrentSession();
+    this.checkpointTimer = setInterval(
+      () => this.checkpointCurrentSession(),
+      this.getCheckpointInterval(),
+    );
+
+    this.webhookService.sendSessionEvent(
+      this.currentSession,
+      "time.session.started",
+    );
   }
 
   /**
    * Stops tracking time for the current file
+   * @param at End time of the current session, defaults to now
    */
-  public stopTracking(): void {
-    this.endCurrentSession();
+  public stopTracking(at?: Date): void {
+    this.endCurrentSession(at);
+    this.pausedSession = undefined;
     this.timer && clearInterval(this.timer);
     this.timer = undefined;
+    this.checkpointTimer && clearInterval(this.checkpointTimer);
+    this.checkpointTimer = undefined;
+  }
+
+  /**
+   * Ends the current session at the given time and remembers its file and
+   * project so tracking can be resumed with resumeTracking()
+   * @param at End time of the current session, e.g. the last activity
+   */
+  public pauseTracking(at: Date): void {
+    const session = this.currentSession;
+    if (!session) {
+      return;
+    }
+
+    this.stopTracking(at);
+    this.pausedSession = session;
+    this.webhookService.sendSessionEvent(session, "time.tracking.paused");
+  }
+
+  /**
+   * Starts a new session for the file and project of the paused session
+   */
+  public resumeTracking(): void {
+    const session = this.pausedSession;
+    if (!session) {
+      return;
+    }
+
+    this.stopTracking();
+    this.beginSession({
+      fileName: session.fileName,
+      filePath: session.filePath,
+      project: session.project,
+      category: session.category,
+    });
+    if (this.currentSession) {
+      this.webhookService.sendSessionEvent(
+        this.currentSession,
+        "time.tracking.resumed",
+      );
+    }
+  }
+
+  /**
+   * Returns whether tracking is paused until the user returns from idle
+   */
+  public isPaused(): boolean {
+    return !!this.pausedSession;
+  }
+
+  /**
+   * Sends a webhook event that the user went idle during the current session
+   * @param lastActivity Time of the last activity before the user went idle
+   */
+  public reportIdle(lastActivity: Date): void {
+    if (this.currentSession) {
+      this.webhookService.sendEvent("time.idle.detected", {
+        ...getSessionEventData(this.currentSession),
+        lastActivity: lastActivity.toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Cuts an idle period out of the current session
+   * The time before the idle period is saved as its own session and tracking
+   * continues in a new session from the end of the idle period
+   * @param idleStart Time of the last activity before the user went idle
+   * @param idleEnd Time the user returned
+   * @returns The idle period as an unsaved session to pass to
+   * resolveIdleTime(), or undefined if the current session doesn't overlap it
+   */
+  public cutIdleTime(idleStart: Date, idleEnd: Date): TimeSession | undefined {
+    if (
+      !this.currentSession ||
+      this.currentSession.startTime.getTime() >= idleEnd.getTime()
+    ) {
+      return undefined;
+    }
+
+    const beforeIdle = this.splitCurrentSession(idleStart);
+    if (beforeIdle) {
+      this.saveEndedSession(beforeIdle);
+    }
+
+    // The idle period is only saved if the user keeps it, so it isn't
+    // offered for recovery
+    const idle = this.splitCurrentSession(idleEnd);
+    if (idle) {
+      this.dbService.clearCheckpoint(idle.id);
+    }
+    return idle;
+  }
+
+  /**
+   * Saves an idle period cut out by cutIdleTime() according to the user's choice
+   * @param idleSession The idle period
+   * @param resolution Whether to keep, discard or reassign the idle time
+   */
+  public resolveIdleTime(
+    idleSession: TimeSession,
+    resolution: IdleResolution,
+  ): void {
+    if (resolution.action === "discard") {
+      return;
+    }
+
+    if (resolution.action === "reassign") {
+      this.saveEndedSession({
+        ...idleSession,
+        category: resolution.category ?? idleSession.category,
+        project: resolution.project ?? idleSession.project,
+      });
+    } else {
+      this.saveEndedSession(idleSession);
+    }
+  }
+
+  /**
+   * Records a change of window focus
+   * The current session is split so the time before and after the change is
+   * saved as separate focused and unfocused segments
+   * @param focused Whether the window is focused, undefined to stop
+   * distinguishing focused and unfocused time
+   * @param at Time the focus changed
+   */
+  public setWindowFocused(focused: boolean | undefined, at: Date): void {
+    this.windowFocused = focused;
+
+    if (!this.currentSession) {
+      return;
+    }
+
+    if ((this.currentSession.focused !== false) === (focused !== false)) {
+      this.currentSession.focused = focused;
+      return;
+    }
+
+    const beforeChange = this.splitCurrentSession(at, { focused });
+    if (beforeChange) {
+      this.saveEndedSession(beforeChange);
+    }
+  }
+
+  /**
+   * Watches HEAD of a repository, replacing the previous watcher
+   */
+  private watchRepository(repositoryRoot: string | undefined): void {
+    if (repositoryRoot === this.watchedRepository) {
+      return;
+    }
+
+    this.gitHeadWatcher?.dispose();
+    this.gitHeadWatcher = repositoryRoot
+      ? watchGitHead(repositoryRoot, () => this.handleGitHeadChange())
+      : undefined;
+    this.watchedRepository = repositoryRoot;
+  }
+
+  /**
+   * Starts a new session when the branch of the current session's
+   * repository has changed
+   */
+  private handleGitHeadChange(): void {
+    const session = this.currentSession;
+    if (!session?.repositoryRoot) {
+      return;
+    }
+
+    const git = readGitContext(session.repositoryRoot);
+    if (
+      !git ||
+      (git.branch === session.branch &&
+        (git.branch || git.commit === session.startCommit))
+    ) {
+      return;
+    }
+
+    // A manually set ticket belongs to the previous branch
+    this.ticketOverride = undefined;
+    const beforeCheckout = this.splitCurrentSession(new Date(), {
+      branch: git.branch,
+      startCommit: git.commit,
+      ticket: this.getTicket({ notes: session.notes, branch: git.branch }),
+    });
+    if (beforeCheckout) {
+      this.saveEndedSession(beforeCheckout);
+    }
+  }
+
+  /**
+   * Gets the commit a session ends on: the tip of its branch, or HEAD if it
+   * was recorded on a detached HEAD
+   */
+  private getEndCommit(session: TimeSession): string | undefined {
+    if (!session.repositoryRoot) {
+      return undefined;
+    }
+
+    return session.branch
+      ? getBranchCommit(session.repositoryRoot, session.branch)
+      : readGitContext(session.repositoryRoot)?.commit;
   }
 
   /**
@@ -194,6 +638,13 @@ export class TimeTrackerModel {
     return this.dbService.loadSessions();
   }
 
+  /**
+   * Gets the service sending webhook events
+   */
+  public getWebhookService(): WebhookService {
+    return this.webhookService;
+  }
+
   /**
    * Gets the current active session if any
    */
@@ -207,6 +658,10 @@ export class TimeTrackerModel {
   public setCategoryForCurrentSession(category: string): void {
     if (this.currentSession) {
       this.currentSession.category = category;
+      this.webhookService.sendSessionEvent(
+        this.currentSession,
+        "time.session.updated",
+      );
     }
   }
 
@@ -216,9 +671,136 @@ export class TimeTrackerModel {
   public addNotesToCurrentSession(notes: string): void {
     if (this.currentSession) {
       this.currentSession.notes = notes;
+      this.currentSession.ticket = this.getTicket(this.currentSession);
+      this.webhookService.sendSessionEvent(
+        this.currentSession,
+        "time.session.updated",
+      );
     }
   }
 
+  /**
+   * Sets the ticket of the current session and the following sessions on
+   * the same branch
+   * @param ticket Ticket key, or undefined to use the ticket extracted from
+   * the notes or branch name again
+   */
+  public setTicketForCurrentSession(ticket: string | undefined): void {
+    this.ticketOverride = ticket || undefined;
+    if (this.currentSession) {
+      this.currentSession.ticket = this.getTicket(this.currentSession);
+    }
+  }
+
+  /**
+   * Gets the ticket of a session: the manually set ticket, or the first
+   * ticket key found in its notes or branch name
+   */
+  private getTicket(
+    session: Pick<TimeSession, "notes" | "branch">,
+  ): string | undefined {
+    if (this.ticketOverride) {
+      return this.ticketOverride;
+    }
+
+    const patterns = getTicketPatterns();
+    return (
+      extractTicket(session.notes, patterns) ??
+      extractTicket(session.branch, patterns)
+    );
+  }
+
+  /**
+   * Adds a session for time spent away from the editor, e.g. a call
+   * @param entry Project, time range and optional details of the session
+   * @returns false if the session could not be saved
+   */
+  public addManualSession(
+    entry: Pick<
+      TimeSession,
+      "project" | "startTime" | "category" | "notes" | "ticket"
+    > & { endTime: Date },
+  ): boolean {
+    return this.saveEndedSession({
+      id: Date.now().toString(),
+      fileName: "Manual Entry",
+      filePath: "",
+      ...entry,
+      duration: entry.endTime.getTime() - entry.startTime.getTime(),
+    });
+  }
+
+  /**
+   * Replaces a saved session with an edited version of it, split into one
+   * segment per day it spans
+   * @param original The session as it is stored
+   * @param updated The edited session, with the same id
+   * @throws If the edited session can't be saved
+   */
+  public updateSession(original: TimeSession, updated: TimeSession): void {
+    this.dbService.updateSession(
+      original,
+      splitSessionAtDayBoundaries({
+        ...updated,
+        duration: updated.endTime
+          ? updated.endTime.getTime() - updated.startTime.getTime()
+          : updated.duration,
+      }),
+    );
+    this.loadSessions();
+  }
+
+  /**
+   * Deletes a saved session
+   * @throws If the session can't be removed
+   */
+  public deleteSession(session: TimeSession): void {
+    this.dbService.deleteSession(session);
+    this.loadSessions();
+  }
+
+  /**
+   * Splits a saved session into two sessions at a point in time
+   * @param session The session as it is stored
+   * @param at Time to split at, between the session's start and end
+   * @throws If the parts can't be saved
+   */
+  public splitSession(session: TimeSession, at: Date): void {
+    const endTime = session.endTime ?? at;
+    const parts: TimeSession[] = [
+      {
+        ...session,
+        endTime: at,
+        duration: at.getTime() - session.startTime.getTime(),
+      },
+      {
+        ...session,
+        id: `${session.id}-split-${at.getTime()}`,
+        startTime: at,
+        endTime,
+        duration: endTime.getTime() - at.getTime(),
+      },
+    ];
+
+    this.dbService.updateSession(
+      session,
+      parts.flatMap((part) => splitSessionAtDayBoundaries(part)),
+    );
+    this.loadSessions();
+  }
+
+  /**
+   * Merges two adjacent saved sessions into the earlier one
+   * @param first The earlier session as it is stored
+   * @param second The later session as it is stored
+   * @throws If one session is focused and the other isn't, or the merged
+   * session can't be saved
+   */
+  public mergeSessions(first: TimeSession, second: TimeSession): void {
+    this.updateSession(first, mergeAdjacentSessions(first, second));
+    this.deleteSession(second);
+  }
+
   /**
    * Gets total time spent on a specific project
    * Can be limited to a date range
@@ -270,35 +852,156 @@ export class TimeTrackerModel {
     }
   }
 
+  /**
+   * Sends the summary of yesterday unless it was sent already, by this or
+   * another window
+   * The sessions are loaded before the summary is claimed, so a failed load
+   * leaves it to the next check instead of skipping the day
+   */
+  private sendDaySummaryIfDue(): void {
+    const yesterday = addDays(formatDate(new Date()), -1);
+
+    try {
+      const start = getStartOfDay(yesterday);
+      const sessions = this.dbService.loadSessions(start, start);
+
+      // The running session is only saved when it ends, so include its
+      // part before midnight
+      if (this.currentSession) {
+        const now = new Date();
+        sessions.push(
+          ...splitSessionAtDayBoundaries({
+            ...this.currentSession,
+            endTime: now,
+            duration: now.getTime() - this.currentSession.startTime.getTime(),
+          }).filter((segment) => formatDate(segment.startTime) === yesterday),
+        );
+      }
+
+      if (!this.webhookService.claimDaySummary(yesterday)) {
+        return;
+      }
+
+      this.webhookService.sendDaySummary(yesterday, sessions);
+    } catch (error) {
+      console.error("Error sending day summary:", error);
+    }
+  }
+
   /**
    * Ends the current tracking session and saves it
+   * @param at End time of the session, defaults to now
    */
-  private endCurrentSession(): void {
+  private endCurrentSession(at = new Date()): void {
     if (this.currentSession) {
-      this.currentSession.endTime = new Date();
+      this.currentSession.endTime = new Date(
+        Math.max(at.getTime(), this.currentSession.startTime.getTime()),
+      );
+      this.currentSession.endCommit = this.getEndCommit(this.currentSession);
       this.currentSession.duration =
         this.currentSession.endTime.getTime() -
         this.currentSession.startTime.getTime();
 
-      // Store the session in memory array (if it's for today)
-      this.sessions.push({ ...this.currentSession });
+      // The checkpoint is kept for recovery if the session couldn't be saved
+      this.saveEndedSession(this.currentSession);
+      this.currentSession = undefined;
+    }
+  }
+
+  /**
+   * Ends the current session at an earlier point in time and continues
+   * tracking the same file in a new session from that point
+   * @param at Time to split at, clamped to the session's start and now
+   * @param overrides Fields to change on the continuing session
+   * @returns The ended part as an unsaved session, or undefined if it is empty
+   */
+  private splitCurrentSession(
+    at: Date,
+    overrides: Partial<TimeSession> = {},
+  ): TimeSession | undefined {
+    if (!this.currentSession) {
+      return undefined;
+    }
 
-      // Save to database
-      try {
-        this.dbService.saveSession(this.currentSession);
+    const splitTime = Math.min(
+      Math.max(at.getTime(), this.currentSession.startTime.getTime()),
+      Date.now(),
+    );
+    const ended: TimeSession = {
+      ...this.currentSession,
+      endTime: new Date(splitTime),
+      duration: splitTime - this.currentSession.startTime.getTime(),
+      endCommit: this.getEndCommit(this.currentSession),
+    };
 
-        // Send webhook notification for the completed session
-        this.webhookService.sendSessionEvent(this.currentSession);
-      } catch (error) {
-        vscode.window.showErrorMessage(
-          `Failed to save time tracking session: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
+    // The checkpoint of the ended part is kept until it is saved, with the
+    // time it ended so a recovery doesn't overlap the continuing session
+    if (ended.duration > 0) {
+      this.dbService.saveCheckpoint(ended, new Date(splitTime));
+    } else {
+      this.dbService.clearCheckpoint(ended.id);
+    }
+    this.currentSession = {
+      ...this.currentSession,
+      id: splitTime.toString(),
+      startCommit: ended.endCommit,
+      ...overrides,
+      startTime: new Date(splitTime),
+      duration: Date.now() - splitTime,
+    };
+    this.checkpointCurrentSession();
 
-      this.currentSession = undefined;
+    return ended.duration > 0 ? ended : undefined;
+  }
+
+  /**
+   * Saves an ended session and sends a webhook notification for it
+   * Its checkpoint is only removed once the session is saved
+   * @returns false if the session could not be saved
+   */
+  private saveEndedSession(session: TimeSession): boolean {
+    try {
+      this.saveSessionSegments(session);
+      this.dbService.clearCheckpoint(session.id);
+
+      // Send webhook notification for the completed session
+      this.webhookService.sendSessionEvent(session);
+      return true;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to save time tracking session: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Saves an ended session, split into one segment per day it spans, and
+   * keeps today's segments in memory
+   * @throws If a segment can't be saved
+   */
+  private saveSessionSegments(session: TimeSession): void {
+    const today = formatDate(new Date());
+    for (const segment of splitSessionAtDayBoundaries(session)) {
+      this.dbService.saveSession(segment);
+      if (formatDate(segment.startTime) === today) {
+        this.sessions.push({ ...segment });
+      }
     }
   }
 
+  /**
+   * Saves sessions imported from another tracker, split into one segment per
+   * day they span; no webhooks are sent for them
+   * @throws If the sessions can't be saved
+   */
+  public importSessions(sessions: TimeSession[]): void {
+    this.dbService.importSessions(
+      sessions.flatMap((session) => splitSessionAtDayBoundaries(session)),
+    );
+    this.loadSessions();
+  }
+
   /**
    * Migrates data from the old single CSV file format to the new per-day format
    * @param oldFilePath Path to the old single CSV file
@@ -0,0 +1,147 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { TimeSession } from "../models/timeTracker";
+import { withFileLock } from "../utils/fileLock";
+import { addDays, formatDate, getStartOfDay } from "../utils/timeUtils";
+import { type CalendarEventMode, formatSessionsAsIcs } from "./exportService";
+
+// Delay after the last change of a storage file before the calendar is
+// written, so a burst of saves writes it once
+const WRITE_DELAY = 5000;
+
+// The calendar is also written periodically so old days drop out of it
+const REWRITE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Keeps an iCalendar file of the recent sessions in the storage directory
+ * up to date, so calendar apps can subscribe to it
+ *
+ * The file is rewritten whenever a storage file changes, including changes
+ * made by other VS Code windows.
+ */
+export class CalendarFileService implements vscode.Disposable {
+  public static readonly FILE_NAME = "time-tracking.ics";
+
+  private watcher: vscode.FileSystemWatcher | undefined;
+  private writeTimeout: NodeJS.Timeout | undefined;
+  private rewriteInterval: NodeJS.Timeout | undefined;
+
+  /**
+   * Creates a calendar file service
+   * @param baseDirectory Storage directory the calendar is written to
+   * @param loadSessions Loads the saved sessions of a date range
+   */
+  constructor(
+    private readonly baseDirectory: string,
+    private readonly loadSessions: (
+      startDate: Date,
+      endDate: Date,
+    ) => TimeSession[],
+  ) {}
+
+  /**
+   * Gets the path of the calendar file
+   */
+  public getFilePath(): string {
+    return path.join(this.baseDirectory, CalendarFileService.FILE_NAME);
+  }
+
+  /**
+   * Starts or stops keeping the calendar file up to date, as set in settings
+   */
+  public updateConfiguration(): void {
+    const enabled = vscode.workspace
+      .getConfiguration("timeTracking")
+      .get<boolean>("calendarFile", false);
+
+    if (!enabled) {
+      this.stop();
+      return;
+    }
+
+    if (!this.watcher) {
+      this.watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          vscode.Uri.file(this.baseDirectory),
+          "{time-tracking-*.csv,time-tracking-*.jsonl,time-tracking.sqlite3}",
+        ),
+      );
+      this.watcher.onDidChange(() => this.scheduleWrite());
+      this.watcher.onDidCreate(() => this.scheduleWrite());
+      this.watcher.onDidDelete(() => this.scheduleWrite());
+      this.rewriteInterval = setInterval(() => this.write(), REWRITE_INTERVAL);
+    }
+    this.write();
+  }
+
+  /**
+   * Writes the calendar after a short delay, restarting the delay if
+   * another change comes in
+   */
+  private scheduleWrite(): void {
+    if (this.writeTimeout) {
+      clearTimeout(this.writeTimeout);
+    }
+    this.writeTimeout = setTimeout(() => {
+      this.writeTimeout = undefined;
+      this.write();
+    }, WRITE_DELAY);
+  }
+
+  /**
+   * Writes the sessions of the configured number of past days and today
+   */
+  public write(): void {
+    const config = vscode.workspace.getConfiguration("timeTracking");
+    const days = Math.max(1, config.get<number>("calendarFileDays", 30));
+    const mode = config.get<CalendarEventMode>("calendarEvents", "block");
+    const today = formatDate(new Date());
+
+    try {
+      const ics = formatSessionsAsIcs(
+        this.loadSessions(
+          getStartOfDay(addDays(today, 1 - days)),
+          getStartOfDay(today),
+        ),
+        mode,
+      );
+
+      // Calendar apps may read the file at any time, so it is replaced in
+      // one step; other windows write the same file
+      const filePath = this.getFilePath();
+      withFileLock(filePath, () => {
+        const temporaryPath = `${filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(temporaryPath, ics, "utf8");
+        fs.renameSync(temporaryPath, filePath);
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to write calendar file: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Stops keeping the calendar file up to date; the file is left in place
+   */
+  private stop(): void {
+    this.watcher?.dispose();
+    this.watcher = undefined;
+    if (this.writeTimeout) {
+      clearTimeout(this.writeTimeout);
+      this.writeTimeout = undefined;
+    }
+    if (this.rewriteInterval) {
+      clearInterval(this.rewriteInterval);
+      this.rewriteInterval = undefined;
+    }
+  }
+
+  /**
+   * Stops keeping the calendar file up to date
+   */
+  public dispose(): void {
+    this.stop();
+  }
+}
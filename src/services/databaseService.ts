@@ -3,38 +3,128 @@ import * as os from "node:os";
 import * as path from "node:path";
 import * as vscode from "vscode";
 import type { TimeSession } from "../models/timeTracker";
+import { isProcessAlive } from "../utils/fileLock";
+import {
+  formatDate,
+  getDayKeysInRange,
+  getFocusedDuration,
+  getStartOfDay,
+} from "../utils/timeUtils";
+import { type CachedDay, SessionCache } from "./sessionCache";
+import { CsvStorageBackend } from "./storage/csvStorageBackend";
+import { JsonlStorageBackend } from "./storage/jsonlStorageBackend";
+import { SqliteStorageBackend } from "./storage/sqliteStorageBackend";
+import type {
+  CategoryStat,
+  DailyStat,
+  StorageBackend,
+  StorageBackendKind,
+} from "./storage/storageBackend";
 
 /**
- * Service that manages CSV file operations for time tracking data
+ * A snapshot of an in-progress session written to disk while tracking
+ */
+export interface SessionCheckpoint {
+  session: TimeSession;
+  checkpointedAt: Date;
+  pid: number;
+}
+
+/**
+ * Opens the storage backend of the given kind in a directory
+ */
+export async function createStorageBackend(
+  kind: StorageBackendKind,
+  baseDirectory: string,
+): Promise<StorageBackend> {
+  switch (kind) {
+    case "sqlite":
+      return await SqliteStorageBackend.open(baseDirectory);
+    case "jsonl":
+      return new JsonlStorageBackend(baseDirectory);
+    default:
+      return new CsvStorageBackend(baseDirectory);
+  }
+}
+
+/**
+ * Service that manages time tracking data through the configured storage backend
  */
 export class DatabaseService {
-  private baseDirectory: string;
-  private sessions: TimeSession[] = [];
-  private readonly CSV_HEADER =
-    "id,fileName,filePath,project,startTime,endTime,duration,category,notes";
+  private readonly CHECKPOINT_PREFIX = "time-tracking-session-";
+  private readonly CHECKPOINT_EXTENSION = ".inprogress";
+  private readonly cache = new SessionCache();
+  private readonly watcher: vscode.FileSystemWatcher;
+
+  private constructor(
+    private readonly backend: StorageBackend,
+    private readonly baseDirectory: string,
+  ) {
+    // Invalidate cached days when their files change, including writes from
+    // other VS Code windows or external tools
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(baseDirectory), "*"),
+    );
+    this.watcher.onDidChange((uri) => this.handleStorageFileChange(uri));
+    this.watcher.onDidCreate((uri) => this.handleStorageFileChange(uri));
+    this.watcher.onDidDelete((uri) => this.handleStorageFileChange(uri));
+  }
+
+  /**
+   * Invalidates the cache for a changed file in the storage directory
+   */
+  private handleStorageFileChange(uri: vscode.Uri): void {
+    const fileName = path.basename(uri.fsPath);
+
+    // Per-day files of the CSV and JSONL backends
+    const dayMatch = fileName.match(
+      /^time-tracking-(\d{4}-\d{2}-\d{2})\.(csv|jsonl)$/,
+    );
+    if (dayMatch) {
+      this.cache.invalidate(dayMatch[1]);
+    } else if (fileName === "time-tracking.sqlite3") {
+      this.cache.invalidateAll();
+    }
+  }
 
   /**
-   * Creates a new DatabaseService
+   * Gets the cached days of a date range, loading missing days from the backend
    */
-  constructor() {
-    this.baseDirectory = this.getBaseDirectory();
-    this.ensureBaseDirectoryExists();
+  private getCachedDays(startDate: Date, endDate: Date): CachedDay[] {
+    return getDayKeysInRange(startDate, endDate).map((day) => {
+      const dayStart = getStartOfDay(day);
+      return (
+        this.cache.get(day) ??
+        this.cache.set(day, this.backend.loadSessions(dayStart, dayStart))
+      );
+    });
+  }
+
+  /**
+   * Opens the storage backend selected in settings
+   */
+  public static async open(): Promise<DatabaseService> {
+    const baseDirectory = DatabaseService.getBaseDirectory();
+    DatabaseService.ensureDirectoryExists(baseDirectory);
 
     try {
-      // Load sessions for the current day initially
-      this.loadSessionsForDay(new Date());
+      const backend = await createStorageBackend(
+        DatabaseService.getConfiguredBackendKind(),
+        baseDirectory,
+      );
+      return new DatabaseService(backend, baseDirectory);
     } catch (error) {
       vscode.window.showErrorMessage(
-        `Failed to initialize CSV file: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to initialize storage: ${error instanceof Error ? error.message : String(error)}`,
       );
       throw error;
     }
   }
 
   /**
-   * Gets the base directory for storing CSV files from settings
+   * Gets the base directory for storing data files from settings
    */
-  private getBaseDirectory(): string {
+  public static getBaseDirectory(): string {
     const configPath = vscode.workspace
       .getConfiguration("timeTracking")
       .get<string>("csvFilePath", "~/time-tracking");
@@ -48,46 +138,24 @@ export class DatabaseService {
   }
 
   /**
-   * Ensures that the base directory for CSV files exists
-   */
-  private ensureBaseDirectoryExists(): void {
-    if (!fs.existsSync(this.baseDirectory)) {
-      try {
-        fs.mkdirSync(this.baseDirectory, { recursive: true });
-      } catch (error) {
-        vscode.window.showErrorMessage(
-          `Failed to create directory: ${error instanceof Error ? error.message : String(error)}`,
-        );
-        throw error;
-      }
-    }
-  }
-
-  /**
-   * Formats a date in YYYY-MM-DD format
+   * Gets the storage backend selected in settings
    */
-  private formatDateToString(date: Date): string {
-    return date.toISOString().split("T")[0]; // YYYY-MM-DD
-  }
-
-  /**
-   * Gets the CSV file path for a specific day
-   */
-  private getFilePathForDay(date: Date): string {
-    const dateString = this.formatDateToString(date);
-    return path.join(this.baseDirectory, `time-tracking-${dateString}.csv`);
+  public static getConfiguredBackendKind(): StorageBackendKind {
+    return vscode.workspace
+      .getConfiguration("timeTracking")
+      .get<StorageBackendKind>("storageBackend", "csv");
   }
 
   /**
-   * Ensures that the CSV file for a specific day exists with headers
+   * Ensures that a directory for data files exists
    */
-  private ensureFileExists(filePath: string): void {
-    if (!fs.existsSync(filePath)) {
+  private static ensureDirectoryExists(directory: string): void {
+    if (!fs.existsSync(directory)) {
       try {
-        fs.writeFileSync(filePath, `${this.CSV_HEADER}\n`, "utf8");
+        fs.mkdirSync(directory, { recursive: true });
       } catch (error) {
         vscode.window.showErrorMessage(
-          `Failed to create CSV file: ${error instanceof Error ? error.message : String(error)}`,
+          `Failed to create directory: ${error instanceof Error ? error.message : String(error)}`,
         );
         throw error;
       }
@@ -95,278 +163,109 @@ export class DatabaseService {
   }
 
   /**
-   * Escapes special characters in CSV fields
-   */
-  private escapeCSV(value: string | null | undefined): string {
-    if (value === null || value === undefined) {
-      return "";
-    }
-    const stringValue = String(value);
-    // If the string contains commas, quotes, or newlines, wrap it in quotes and escape any quotes
-    if (
-      stringValue.includes(",") ||
-      stringValue.includes('"') ||
-      stringValue.includes("\n")
-    ) {
-      return `"${stringValue.replace(/"/g, '""')}"`;
-    }
-    return stringValue;
-  }
-
-  /**
-   * Saves a time tracking session to the appropriate day's CSV file
-   */
-  public saveSession(session: TimeSession): void {
-    try {
-      // Determine which day file to use based on session start time
-      const sessionDate = new Date(session.startTime);
-      const filePath = this.getFilePathForDay(sessionDate);
-
-      // Ensure file exists
-      this.ensureFileExists(filePath);
-
-      // Load sessions for this specific day
-      const dailySessions = this.loadSessionsFromFile(filePath);
-
-      // Check if session already exists
-      const existingIndex = dailySessions.findIndex((s) => s.id === session.id);
-      if (existingIndex >= 0) {
-        dailySessions[existingIndex] = { ...session };
-      } else {
-        dailySessions.push({ ...session });
-      }
-
-      // Update in-memory sessions if this is today's data
-      if (
-        this.formatDateToString(sessionDate) ===
-        this.formatDateToString(new Date())
-      ) {
-        this.sessions = dailySessions;
-      }
-
-      // Always rewrite the entire day file for consistency
-      this.saveSessionsToFile(dailySessions, filePath);
-    } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to save session: ${error instanceof Error ? error.message : String(error)}`,
-      );
-    }
-  }
-
-  /**
-   * Saves a collection of sessions to a specific file
+   * Copies all sessions from one storage backend to another
+   * Sessions that already exist in the target are replaced
+   * @returns The number of sessions copied
+   * @throws If the target can't be written; the selected backend is not
+   * changed by the conversion
    */
-  private saveSessionsToFile(sessions: TimeSession[], filePath: string): void {
+  public static async convertStorage(
+    from: StorageBackendKind,
+    to: StorageBackendKind,
+  ): Promise<number> {
+    const baseDirectory = DatabaseService.getBaseDirectory();
+    DatabaseService.ensureDirectoryExists(baseDirectory);
+
+    const source = await createStorageBackend(from, baseDirectory);
     try {
-      // Start with header
-      let fileContent = `${this.CSV_HEADER}\n`;
-
-      // Add each session as a line
-      sessions.forEach((session) => {
-        const line = [
-          session.id,
-          this.escapeCSV(session.fileName),
-          this.escapeCSV(session.filePath),
-          this.escapeCSV(session.project),
-          session.startTime.toISOString(),
-          session.endTime ? session.endTime.toISOString() : "",
-          session.duration,
-          this.escapeCSV(session.category),
-          this.escapeCSV(session.notes),
-        ].join(",");
-        fileContent += `${line}\n`;
-      });
-
-      // Write to file with a backup strategy
-      const backupPath = `${filePath}.backup`;
-
-      // 1. Create backup of existing file if it exists
-      if (fs.existsSync(filePath)) {
-        fs.copyFileSync(filePath, backupPath);
-      }
-
-      // 2. Write new content
-      fs.writeFileSync(filePath, fileContent, "utf8");
-
-      // 3. Remove backup if write was successful
-      if (fs.existsSync(backupPath)) {
-        fs.unlinkSync(backupPath);
-      }
-    } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to save sessions: ${error instanceof Error ? error.message : String(error)}`,
-      );
-
-      // Try to restore from backup if available
-      const backupPath = `${filePath}.backup`;
-      if (fs.existsSync(backupPath)) {
-        try {
-          fs.copyFileSync(backupPath, filePath);
-          vscode.window.showInformationMessage(
-            "Restored time tracking data from backup.",
-          );
-        } catch (restoreError) {
-          vscode.window.showErrorMessage(
-            `Failed to restore from backup: ${restoreError instanceof Error ? restoreError.message : String(restoreError)}`,
-          );
-        }
+      const target = await createStorageBackend(to, baseDirectory);
+      try {
+        const sessions = source.loadSessions();
+        target.saveSessions(sessions);
+        return sessions.length;
+      } finally {
+        target.close();
       }
+    } finally {
+      source.close();
     }
   }
 
   /**
-   * Parse CSV value, handling quoted strings
+   * Gets the kind of the storage backend in use
    */
-  private parseCSVValue(value: string): string {
-    if (value === "") {
-      return "";
-    }
-
-    if (value.startsWith('"') && value.endsWith('"')) {
-      // Remove quotes and handle escaped quotes
-      return value.substring(1, value.length - 1).replace(/""/g, '"');
-    }
-
-    return value;
+  public get backendKind(): StorageBackendKind {
+    return this.backend.kind;
   }
 
   /**
-   * Parse a CSV line into an array of fields
+   * Saves a time tracking session, replacing a stored session with the same id
+   * @throws If the session can't be written
    */
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let inQuotes = false;
-    let currentField = "";
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-          // Handle escaped quote
-          currentField += '"';
-          i++; // Skip next quote
-        } else {
-          // Toggle quotes mode
-          inQuotes = !inQuotes;
-        }
-      } else if (char === "," && !inQuotes) {
-        // End of field
-        result.push(currentField);
-        currentField = "";
-      } else {
-        // Add character to current field
-        currentField += char;
-      }
+  public saveSession(session: TimeSession): void {
+    try {
+      this.backend.saveSession(session);
+    } finally {
+      this.cache.invalidate(formatDate(new Date(session.startTime)));
     }
-
-    // Add the last field
-    result.push(currentField);
-
-    return result;
   }
 
   /**
-   * Loads sessions from a specific CSV file
+   * Replaces a stored session with the sessions it was edited into
+   * The new sessions are saved before the original is removed, so a failed
+   * write never loses the session
+   * @param original The session as it is stored
+   * @param updated The edited session, split into one segment per day it spans
+   * @throws If a session can't be written or the original can't be removed
    */
-  private loadSessionsFromFile(filePath: string): TimeSession[] {
-    if (!fs.existsSync(filePath)) {
-      return [];
-    }
+  public updateSession(original: TimeSession, updated: TimeSession[]): void {
+    const originalDay = formatDate(new Date(original.startTime));
+    const updatedDays = updated.map((session) =>
+      formatDate(new Date(session.startTime)),
+    );
 
     try {
-      const fileContent = fs.readFileSync(filePath, "utf8");
-      const lines = fileContent.split(/\r?\n/);
+      this.backend.saveSessions(updated);
 
-      // Skip header line
-      if (lines.length > 0) {
-        lines.shift();
-      }
-
-      return lines
-        .filter((line) => line.trim() !== "") // Skip empty lines
-        .map((line) => {
-          const values = this.parseCSVLine(line);
-
-          return {
-            id: values[0],
-            fileName: this.parseCSVValue(values[1]),
-            filePath: this.parseCSVValue(values[2]),
-            project: this.parseCSVValue(values[3]),
-            startTime: new Date(values[4]),
-            endTime: values[5] ? new Date(values[5]) : undefined,
-            duration: Number(values[6]),
-            category: values[7] ? this.parseCSVValue(values[7]) : undefined,
-            notes: values[8] ? this.parseCSVValue(values[8]) : undefined,
-          } as TimeSession;
-        });
-    } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to load sessions from CSV: ${error instanceof Error ? error.message : String(error)}`,
+      // The original is only replaced in place if it kept its id and day
+      const replaced = updated.some(
+        (session, index) =>
+          session.id === original.id && updatedDays[index] === originalDay,
       );
-      return [];
+      if (!replaced) {
+        this.backend.deleteSession(original);
+      }
+    } finally {
+      for (const day of new Set([originalDay, ...updatedDays])) {
+        this.cache.invalidate(day);
+      }
     }
   }
 
   /**
-   * Loads sessions for a specific day
+   * Deletes a stored session
+   * @throws If the session can't be removed
    */
-  private loadSessionsForDay(date: Date): void {
-    const filePath = this.getFilePathForDay(date);
-    this.sessions = this.loadSessionsFromFile(filePath);
-  }
-
-  /**
-   * Gets all CSV files in the base directory
-   */
-  private getAvailableDataFiles(): string[] {
+  public deleteSession(session: TimeSession): void {
     try {
-      const files = fs
-        .readdirSync(this.baseDirectory)
-        .filter(
-          (file) => file.endsWith(".csv") && file.startsWith("time-tracking-"),
-        )
-        .map((file) => path.join(this.baseDirectory, file));
-      return files;
-    } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to read directory: ${error instanceof Error ? error.message : String(error)}`,
-      );
-      return [];
+      this.backend.deleteSession(session);
+    } finally {
+      this.cache.invalidate(formatDate(new Date(session.startTime)));
     }
   }
 
   /**
    * Loads all time tracking sessions (from all days)
-   * Can be limited to a date range
+   * Can be limited to a date range, which is served from the cache
    */
   public loadSessions(startDate?: Date, endDate?: Date): TimeSession[] {
-    let allSessions: TimeSession[] = [];
-
-    if (startDate && endDate) {
-      // Load sessions for date range
-      const currentDate = new Date(startDate);
-      while (currentDate <= endDate) {
-        const filePath = this.getFilePathForDay(currentDate);
-        const dailySessions = this.loadSessionsFromFile(filePath);
-        allSessions = [...allSessions, ...dailySessions];
-
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-    } else {
-      // Load all available sessions
-      const files = this.getAvailableDataFiles();
-      for (const file of files) {
-        const dailySessions = this.loadSessionsFromFile(file);
-        allSessions = [...allSessions, ...dailySessions];
-      }
+    if (!startDate || !endDate) {
+      return this.backend.loadSessions();
     }
 
-    // Sort by start time
-    allSessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
-
-    return allSessions;
+    return this.getCachedDays(startDate, endDate)
+      .flatMap((day) => day.sessions.map((session) => ({ ...session })))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
   }
 
   /**
@@ -374,31 +273,26 @@ export class DatabaseService {
    */
   public loadTodaySessions(): TimeSession[] {
     const today = new Date();
-    this.loadSessionsForDay(today);
-    return [...this.sessions];
+    return this.loadSessions(today, today);
   }
 
   /**
    * Gets statistics about time spent per category
-   * Can be limited to a date range
+   * Can be limited to a date range, which is served from the cache
    */
-  public getCategoryStats(
-    startDate?: Date,
-    endDate?: Date,
-  ): { category: string; duration: number }[] {
-    // Get all sessions in the date range
-    const sessions = this.loadSessions(startDate, endDate);
+  public getCategoryStats(startDate?: Date, endDate?: Date): CategoryStat[] {
+    if (!startDate || !endDate) {
+      return this.backend.getCategoryStats();
+    }
 
-    // Group by category and sum durations
     const categoryMap = new Map<string, number>();
-
-    for (const session of sessions) {
-      const category = session.category || "Uncategorized";
-      const currentValue = categoryMap.get(category) || 0;
-      categoryMap.set(category, currentValue + session.duration);
+    for (const day of this.getCachedDays(startDate, endDate)) {
+      for (const [category, sessions] of day.byCategory) {
+        const duration = getFocusedDuration(sessions);
+        categoryMap.set(category, (categoryMap.get(category) || 0) + duration);
+      }
     }
 
-    // Convert map to array
     return Array.from(categoryMap.entries()).map(([category, duration]) => ({
       category,
       duration,
@@ -407,56 +301,49 @@ export class DatabaseService {
 
   /**
    * Gets total time spent on a specific project
-   * Can be limited to a date range
+   * Can be limited to a date range, which is served from the cache
    */
   public getProjectTotalTime(
     project: string,
     startDate?: Date,
     endDate?: Date,
   ): number {
-    // Get all sessions in the date range
-    const sessions = this.loadSessions(startDate, endDate);
+    if (!startDate || !endDate) {
+      return this.backend.getProjectTotalTime(project);
+    }
 
-    // Sum durations for the specified project
-    return sessions
-      .filter((session) => session.project === project)
-      .reduce((total, session) => total + session.duration, 0);
+    return getFocusedDuration(
+      this.getCachedDays(startDate, endDate).flatMap(
+        (day) => day.byProject.get(project) ?? [],
+      ),
+    );
   }
 
   /**
-   * Gets stats by day for a date range
+   * Gets stats by day for a date range, served from the cache
    */
-  public getDailyStats(
-    startDate: Date,
-    endDate: Date,
-  ): { date: string; duration: number }[] {
-    const result: { date: string; duration: number }[] = [];
-
-    const currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      const dateStr = this.formatDateToString(currentDate);
-      const filePath = this.getFilePathForDay(currentDate);
-      const dailySessions = this.loadSessionsFromFile(filePath);
-
-      const totalDuration = dailySessions.reduce(
-        (sum, session) => sum + session.duration,
-        0,
-      );
-
-      result.push({
-        date: dateStr,
-        duration: totalDuration,
-      });
+  public getDailyStats(startDate: Date, endDate: Date): DailyStat[] {
+    const days = this.getCachedDays(startDate, endDate);
 
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
+    return getDayKeysInRange(startDate, endDate).map((date, index) => ({
+      date,
+      duration: days[index].totalDuration,
+    }));
+  }
 
-    return result;
+  /**
+   * Moves stored sessions to the day they start on in the current day
+   * bucketing time zone
+   * @returns The number of sessions that were moved
+   */
+  public rebucketDays(): number {
+    const movedSessions = this.backend.rebucketDays();
+    this.cache.invalidateAll();
+    return movedSessions;
   }
 
   /**
-   * Migrates data from old format (single CSV) to new format (daily CSV files)
+   * Migrates data from old format (single CSV) to the configured backend
    * This should be called once during upgrade
    */
   public migrateFromSingleFile(oldFilePath: string): boolean {
@@ -466,25 +353,13 @@ export class DatabaseService {
 
     try {
       // Load all sessions from the old file
-      const oldSessions = this.loadSessionsFromFile(oldFilePath);
-
-      // Group sessions by day
-      const sessionsByDay = new Map<string, TimeSession[]>();
-
-      for (const session of oldSessions) {
-        const dateKey = this.formatDateToString(session.startTime);
-        if (!sessionsByDay.has(dateKey)) {
-          sessionsByDay.set(dateKey, []);
-        }
-        sessionsByDay.get(dateKey)?.push(session);
-      }
+      const oldSessions = new CsvStorageBackend(
+        this.baseDirectory,
+      ).readSessionsFromFile(oldFilePath);
 
-      // Save each group to its own file
-      for (const [dateKey, sessions] of sessionsByDay.entries()) {
-        const date = new Date(dateKey);
-        const filePath = this.getFilePathForDay(date);
-        this.saveSessionsToFile(sessions, filePath);
-      }
+      // The backend files each session under its own day
+      this.backend.saveSessions(oldSessions);
+      this.cache.invalidateAll();
 
       // Create a backup of the old file
       const backupPath = `${oldFilePath}.bak`;
@@ -503,9 +378,146 @@ export class DatabaseService {
   }
 
   /**
-   * Closes any resources (no-op for CSV implementation)
+   * Saves sessions imported from the export of another tracker
+   * Like migrateFromSingleFile, but for sessions already read by an importer;
+   * all sessions are handed to the backend at once, so each day file is
+   * written once and the SQLite backend saves them in a single transaction
+   * @throws If the sessions can't be written; file backends may have saved
+   * the days before the one that failed
+   */
+  public importSessions(sessions: TimeSession[]): void {
+    try {
+      this.backend.saveSessions(sessions);
+    } finally {
+      const days = sessions.map((session) =>
+        formatDate(new Date(session.startTime)),
+      );
+      for (const day of new Set(days)) {
+        this.cache.invalidate(day);
+      }
+    }
+  }
+
+  /**
+   * Gets the journal file path for an in-progress session
+   */
+  private getCheckpointPath(sessionId: string): string {
+    return path.join(
+      this.baseDirectory,
+      `${this.CHECKPOINT_PREFIX}${sessionId}${this.CHECKPOINT_EXTENSION}`,
+    );
+  }
+
+  /**
+   * Writes a checkpoint of the in-progress session to its journal file
+   * The file is written to a temporary path first and then renamed so a crash
+   * mid-write never leaves a truncated journal behind
+   */
+  public saveCheckpoint(session: TimeSession, checkpointedAt: Date): void {
+    const filePath = this.getCheckpointPath(session.id);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      const content = JSON.stringify({
+        pid: process.pid,
+        checkpointedAt: checkpointedAt.toISOString(),
+        session: {
+          ...session,
+          startTime: session.startTime.toISOString(),
+          endTime: session.endTime?.toISOString(),
+        },
+      });
+
+      fs.writeFileSync(tempPath, content, "utf8");
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      console.error("Failed to write session checkpoint:", error);
+    }
+  }
+
+  /**
+   * Removes the journal file of a session once it has been saved or discarded
+   */
+  public clearCheckpoint(sessionId: string): void {
+    const filePath = this.getCheckpointPath(sessionId);
+
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      console.error("Failed to remove session checkpoint:", error);
+    }
+  }
+
+  /**
+   * Loads checkpoints left behind by sessions that were never ended
+   * A checkpoint is orphaned when the process that wrote it is gone. A live
+   * window may not refresh its checkpoint for a while, e.g. while the machine
+   * sleeps, so age alone doesn't orphan a checkpoint; a stale checkpoint of a
+   * running process only is orphaned if it was written before the system
+   * booted, as its process id then belongs to another process
+   * @param maxAgeMs Age after which the process id of a checkpoint may have
+   * been reused
+   */
+  public loadOrphanedCheckpoints(maxAgeMs: number): SessionCheckpoint[] {
+    let files: string[];
+    try {
+      files = fs
+        .readdirSync(this.baseDirectory)
+        .filter(
+          (file) =>
+            file.startsWith(this.CHECKPOINT_PREFIX) &&
+            file.endsWith(this.CHECKPOINT_EXTENSION),
+        );
+    } catch (error) {
+      console.error("Failed to read session checkpoints:", error);
+      return [];
+    }
+
+    const checkpoints: SessionCheckpoint[] = [];
+    const now = Date.now();
+    const bootTime = now - os.uptime() * 1000;
+
+    for (const file of files) {
+      try {
+        const content = fs.readFileSync(
+          path.join(this.baseDirectory, file),
+          "utf8",
+        );
+        const data = JSON.parse(content);
+        const checkpoint: SessionCheckpoint = {
+          pid: Number(data.pid),
+          checkpointedAt: new Date(data.checkpointedAt),
+          session: {
+            ...data.session,
+            startTime: new Date(data.session.startTime),
+            endTime: undefined,
+          },
+        };
+
+        const checkpointedAt = checkpoint.checkpointedAt.getTime();
+        const isPidReused =
+          now - checkpointedAt > maxAgeMs && checkpointedAt < bootTime;
+        if (
+          checkpoint.pid !== process.pid &&
+          (!isProcessAlive(checkpoint.pid) || isPidReused)
+        ) {
+          checkpoints.push(checkpoint);
+        }
+      } catch (error) {
+        console.error(`Failed to read session checkpoint ${file}:`, error);
+      }
+    }
+
+    return checkpoints;
+  }
+
+  /**
+   * Closes the storage backend
    */
   public close(): void {
-    // No resources to close for file-based storage
+    this.watcher.dispose();
+    this.backend.close();
   }
 }
@@ -0,0 +1,410 @@
+import * as fs from "node:fs";
+import type { TimeSession } from "../models/timeTracker";
+import { escapeCSV } from "../utils/csvUtils";
+import { type DateRange, getDateRangeDates } from "../utils/dateRange";
+import { type SessionFilter, applySessionFilter } from "../utils/sessionFilter";
+import {
+  formatDate,
+  getDayKeysInRange,
+  isFocusedSession,
+} from "../utils/timeUtils";
+
+/**
+ * Formats sessions can be exported in
+ */
+export type ExportFormat = "csv" | "json" | "timesheet" | "ics";
+
+/**
+ * How timesheet cells are rounded to the rounding increment
+ */
+export type RoundingMode = "up" | "nearest" | "down";
+
+/**
+ * Whether calendar events are created per session or per block of
+ * consecutive sessions
+ */
+export type CalendarEventMode = "session" | "block";
+
+/**
+ * What to export and how
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  range: DateRange;
+  filter: SessionFilter;
+  roundingMinutes: number; // timesheet rounding increment, 0 for none
+  roundingMode: RoundingMode;
+  calendarEvents: CalendarEventMode;
+}
+
+/**
+ * File extensions of the export formats
+ */
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  timesheet: "csv",
+  ics: "ics",
+};
+
+// Byte order mark, so spreadsheet applications read the CSV as UTF-8
+const UTF8_BOM = "\ufeff";
+
+/**
+ * Formats sessions as a flat CSV file with one row per session
+ */
+export function formatSessionsAsCsv(sessions: TimeSession[]): string {
+  const header = [
+    "id",
+    "day",
+    "startTime",
+    "endTime",
+    "durationMinutes",
+    "project",
+    "category",
+    "ticket",
+    "branch",
+    "fileName",
+    "filePath",
+    "notes",
+    "focused",
+  ];
+
+  const rows = sessions.map((session) =>
+    [
+      escapeCSV(session.id),
+      formatDate(session.startTime),
+      session.startTime.toISOString(),
+      session.endTime ? session.endTime.toISOString() : "",
+      (session.duration / 60000).toFixed(2),
+      escapeCSV(session.project),
+      escapeCSV(session.category),
+      escapeCSV(session.ticket),
+      escapeCSV(session.branch),
+      escapeCSV(session.fileName),
+      escapeCSV(session.filePath),
+      escapeCSV(session.notes),
+      String(session.focused !== false),
+    ].join(","),
+  );
+
+  return `${UTF8_BOM}${[header.join(","), ...rows].join("\r\n")}\r\n`;
+}
+
+/**
+ * Formats sessions as JSON, together with the range and filter they were
+ * selected with
+ */
+export function formatSessionsAsJson(
+  sessions: TimeSession[],
+  range: DateRange,
+  filter: SessionFilter,
+): string {
+  return JSON.stringify(
+    {
+      range: { start: range.start, end: range.end },
+      filter,
+      exportedAt: new Date().toISOString(),
+      sessions,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Rounds a duration to a multiple of an increment
+ * @param milliseconds Duration to round
+ * @param roundingMinutes Increment in minutes, 0 for no rounding
+ * @param mode Whether to round up, to the nearest multiple, or down
+ */
+export function roundDuration(
+  milliseconds: number,
+  roundingMinutes: number,
+  mode: RoundingMode,
+): number {
+  if (roundingMinutes <= 0) {
+    return milliseconds;
+  }
+
+  const increment = roundingMinutes * 60000;
+  const round =
+    mode === "up" ? Math.ceil : mode === "down" ? Math.floor : Math.round;
+  return round(milliseconds / increment) * increment;
+}
+
+/**
+ * Formats sessions as a timesheet with one row per project and ticket and
+ * one column per day, in hours
+ * Only focused time is counted, like in the reports, and each cell is rounded
+ * separately so the totals add up to the billed cells
+ */
+export function formatTimesheet(
+  sessions: TimeSession[],
+  range: DateRange,
+  roundingMinutes: number,
+  roundingMode: RoundingMode,
+): string {
+  const { startDate, endDate } = getDateRangeDates(range);
+  const days = getDayKeysInRange(startDate, endDate);
+
+  // Durations per project and ticket, then per day
+  const rows = new Map<
+    string,
+    { project: string; ticket: string; days: Map<string, number> }
+  >();
+  for (const session of sessions.filter(isFocusedSession)) {
+    const project = session.project || "No Project";
+    const ticket = session.ticket ?? "";
+    const key = `${project}\n${ticket}`;
+    const row = rows.get(key) ?? { project, ticket, days: new Map() };
+    const day = formatDate(session.startTime);
+    row.days.set(day, (row.days.get(day) ?? 0) + session.duration);
+    rows.set(key, row);
+  }
+
+  const toHours = (milliseconds: number) => (milliseconds / 3600000).toFixed(2);
+  const dayTotals = days.map(() => 0);
+  const lines = [...rows.values()]
+    .sort(
+      (a, b) =>
+        a.project.localeCompare(b.project) || a.ticket.localeCompare(b.ticket),
+    )
+    .map((row) => {
+      const cells = days.map((day, index) => {
+        const duration = roundDuration(
+          row.days.get(day) ?? 0,
+          roundingMinutes,
+          roundingMode,
+        );
+        dayTotals[index] += duration;
+        return duration;
+      });
+      const total = cells.reduce((sum, duration) => sum + duration, 0);
+      return [
+        escapeCSV(row.project),
+        escapeCSV(row.ticket),
+        ...cells.map((duration) => (duration ? toHours(duration) : "")),
+        toHours(total),
+      ].join(",");
+    });
+
+  const grandTotal = dayTotals.reduce((sum, duration) => sum + duration, 0);
+  return `${UTF8_BOM}${[
+    ["Project", "Ticket", ...days, "Total"].join(","),
+    ...lines,
+    ["Total", "", ...dayTotals.map(toHours), toHours(grandTotal)].join(","),
+  ].join("\r\n")}\r\n`;
+}
+
+// Sessions of the same project and category that follow each other within
+// this time are shown as one calendar event in block mode
+const CALENDAR_BLOCK_GAP = 5 * 60 * 1000;
+
+/**
+ * Escapes a text value of an iCalendar property (RFC 5545, section 3.3.11)
+ */
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds an iCalendar content line into lines of at most 75 octets, as
+ * required by RFC 5545, section 3.1; characters are never split
+ */
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts toward the limit
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Formats a date as an iCalendar UTC date-time, e.g. "20240301T090000Z"
+ */
+function formatIcsDate(date: Date): string {
+  return `${date.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`;
+}
+
+/**
+ * Groups sessions into calendar events
+ * In block mode, sessions of the same project and category that follow each
+ * other closely are joined; otherwise each session is its own event
+ */
+function groupCalendarEvents(
+  sessions: TimeSession[],
+  mode: CalendarEventMode,
+): TimeSession[][] {
+  const sorted = sessions
+    .filter((session) => session.endTime && isFocusedSession(session))
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  if (mode === "session") {
+    return sorted.map((session) => [session]);
+  }
+
+  const blocks: TimeSession[][] = [];
+  for (const session of sorted) {
+    const block = blocks[blocks.length - 1];
+    const last = block?.[block.length - 1];
+    if (
+      last?.endTime &&
+      last.project === session.project &&
+      last.category === session.category &&
+      session.startTime.getTime() - last.endTime.getTime() <= CALENDAR_BLOCK_GAP
+    ) {
+      block.push(session);
+    } else {
+      blocks.push([session]);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Formats sessions as an iCalendar file (RFC 5545) with one event per
+ * session or per block of consecutive sessions
+ * Only focused, ended sessions are included. The summary is the project and
+ * category, and the description lists the notes, tickets, branches and files.
+ * @param sessions Sessions to include
+ * @param mode Whether to create an event per session or per block
+ */
+export function formatSessionsAsIcs(
+  sessions: TimeSession[],
+  mode: CalendarEventMode,
+): string {
+  const timestamp = formatIcsDate(new Date());
+  const unique = (values: (string | undefined)[]) => [
+    ...new Set(values.filter((value): value is string => !!value)),
+  ];
+
+  const events = groupCalendarEvents(sessions, mode).map((block) => {
+    const first = block[0];
+    const end = block.reduce(
+      (latest, session) =>
+        session.endTime && session.endTime > latest ? session.endTime : latest,
+      first.startTime,
+    );
+    const tickets = unique(block.map((session) => session.ticket));
+    const branches = unique(block.map((session) => session.branch));
+    const files = unique(block.map((session) => session.fileName));
+    const description = [
+      ...unique(block.map((session) => session.notes)),
+      tickets.length > 0 ? `Ticket: ${tickets.join(", ")}` : "",
+      branches.length > 0 ? `Branch: ${branches.join(", ")}` : "",
+      files.length > 0 ? `Files: ${files.join(", ")}` : "",
+    ].filter(Boolean);
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${escapeIcsText(first.id)}@time-tracking`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART:${formatIcsDate(first.startTime)}`,
+      `DTEND:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(
+        [first.project || "No Project", first.category]
+          .filter(Boolean)
+          .join(" / "),
+      )}`,
+      `DESCRIPTION:${escapeIcsText(description.join("\n"))}`,
+      ...(first.category
+        ? [`CATEGORIES:${escapeIcsText(first.category)}`]
+        : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+
+  return `${[
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//time-tracking//VS Code Time Tracking//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Time Tracking",
+    ...events.flat(),
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n")}\r\n`;
+}
+
+/**
+ * Exports tracked sessions to files
+ */
+export class ExportService {
+  /**
+   * Creates an export service
+   * @param loadSessions Loads the saved sessions of a date range
+   */
+  constructor(
+    private readonly loadSessions: (
+      startDate: Date,
+      endDate: Date,
+    ) => TimeSession[],
+  ) {}
+
+  /**
+   * Gets the sessions of a date range that match a filter
+   */
+  public getSessions(range: DateRange, filter: SessionFilter): TimeSession[] {
+    const { startDate, endDate } = getDateRangeDates(range);
+    return applySessionFilter(this.loadSessions(startDate, endDate), filter);
+  }
+
+  /**
+   * Formats the selected sessions in the chosen format
+   */
+  public format(options: ExportOptions): string {
+    const sessions = this.getSessions(options.range, options.filter);
+
+    switch (options.format) {
+      case "csv":
+        return formatSessionsAsCsv(sessions);
+      case "json":
+        return formatSessionsAsJson(sessions, options.range, options.filter);
+      case "timesheet":
+        return formatTimesheet(
+          sessions,
+          options.range,
+          options.roundingMinutes,
+          options.roundingMode,
+        );
+      case "ics":
+        return formatSessionsAsIcs(sessions, options.calendarEvents);
+    }
+  }
+
+  /**
+   * Writes an export to a file
+   * @param options What to export and how
+   * @param filePath File to write
+   */
+  public exportToFile(options: ExportOptions, filePath: string): void {
+    fs.writeFileSync(filePath, this.format(options), "utf8");
+  }
+
+  /**
+   * Suggests a file name for an export, e.g. "timesheet-2024-03-01_2024-03-31.csv"
+   */
+  public static getDefaultFileName(options: ExportOptions): string {
+    const kind = options.format === "timesheet" ? "timesheet" : "time-tracking";
+    const { start, end } = options.range;
+    return `${kind}-${start}_${end}.${EXPORT_FILE_EXTENSIONS[options.format]}`;
+  }
+}
@@ -0,0 +1,226 @@
+import * as fs from "node:fs";
+import type { TimeSession } from "../models/timeTracker";
+import { ClockifyImporter } from "./importers/clockifyImporter";
+import type { SessionImporter } from "./importers/sessionImporter";
+import { TogglImporter } from "./importers/togglImporter";
+import { WakaTimeImporter } from "./importers/wakatimeImporter";
+
+/**
+ * All importers, in the order they are offered to the user
+ */
+export const SESSION_IMPORTERS: SessionImporter[] = [
+  new TogglImporter(),
+  new ClockifyImporter(),
+  new WakaTimeImporter(),
+];
+
+/**
+ * Finds the importer that reads an export
+ * @returns The importer, or undefined if the format is not recognized
+ */
+export function detectSessionImporter(
+  content: string,
+): SessionImporter | undefined {
+  return SESSION_IMPORTERS.find((importer) => importer.canParse(content));
+}
+
+/**
+ * Sessions of an export, checked against the saved sessions
+ */
+export interface ImportPreview {
+  source: SessionImporter;
+  sessions: TimeSession[]; // sessions that are not saved yet
+  overlaps: Map<TimeSession, number>; // new sessions mostly covered by saved ones, with the covered share
+  duplicates: number; // sessions that are already saved
+  invalidEntries: number; // entries that could not be read
+}
+
+/**
+ * Gets the key of a session's time range, to the second
+ */
+function getTimeRangeKey(session: TimeSession): string {
+  const start = Math.floor(session.startTime.getTime() / 1000);
+  const end = Math.floor(
+    (session.endTime?.getTime() ?? session.startTime.getTime()) / 1000,
+  );
+  return `${start}-${end}`;
+}
+
+/**
+ * Drops imported sessions that are already saved
+ * A session is saved already if a saved session has its id, e.g. from an
+ * earlier import of the same export, or covers exactly its time range, e.g.
+ * the same entry exported from another tracker
+ * @param imported Sessions read from an export
+ * @param existing Saved sessions of the days the imported sessions cover
+ */
+export function removeDuplicateSessions(
+  imported: TimeSession[],
+  existing: TimeSession[],
+): TimeSession[] {
+  // Sessions spanning midnight are saved as segments of their parent id
+  const ids = new Set(
+    existing.flatMap((session) => [session.id, session.parentId ?? ""]),
+  );
+  const timeRanges = new Set(existing.map(getTimeRangeKey));
+
+  return imported.filter((session) => {
+    const timeRange = getTimeRangeKey(session);
+    if (ids.has(session.id) || timeRanges.has(timeRange)) {
+      return false;
+    }
+    // Entries listed twice in the export are imported once
+    timeRanges.add(timeRange);
+    return true;
+  });
+}
+
+/**
+ * Gets the share of a session's time range that other sessions cover
+ * @param session Session to check
+ * @param others Sessions that may overlap it
+ * @returns A value from 0 (no overlap) to 1 (fully covered)
+ */
+export function getOverlapRatio(
+  session: TimeSession,
+  others: TimeSession[],
+): number {
+  const start = session.startTime.getTime();
+  const end = session.endTime?.getTime() ?? start;
+  if (end <= start) {
+    return 0;
+  }
+
+  const ranges = others
+    .map((other) => [
+      Math.max(start, other.startTime.getTime()),
+      Math.min(end, (other.endTime ?? other.startTime).getTime()),
+    ])
+    .filter(([from, to]) => from < to)
+    .sort((a, b) => a[0] - b[0]);
+
+  // Time covered by several sessions is only counted once
+  let covered = 0;
+  let coveredUntil = start;
+  for (const [from, to] of ranges) {
+    if (to > coveredUntil) {
+      covered += to - Math.max(from, coveredUntil);
+      coveredUntil = to;
+    }
+  }
+  return covered / (end - start);
+}
+
+/**
+ * Finds imported sessions that overlap saved sessions, e.g. time that was
+ * both tracked here and in the other tracker
+ * @param imported Sessions read from an export
+ * @param existing Saved sessions of the days the imported sessions cover
+ * @param threshold Share of a session that must be covered, 0 to find none
+ * @returns The overlapping sessions with the share that is covered
+ */
+export function findOverlappingSessions(
+  imported: TimeSession[],
+  existing: TimeSession[],
+  threshold: number,
+): Map<TimeSession, number> {
+  const overlaps = new Map<TimeSession, number>();
+  if (threshold <= 0) {
+    return overlaps;
+  }
+
+  for (const session of imported) {
+    const ratio = getOverlapRatio(session, existing);
+    if (ratio > 0 && ratio >= threshold) {
+      overlaps.set(session, ratio);
+    }
+  }
+  return overlaps;
+}
+
+/**
+ * Imports sessions from the exports of other trackers
+ */
+export class ImportService {
+  /**
+   * Creates an import service
+   * @param loadSessions Loads the saved sessions of a date range
+   * @param saveSessions Saves imported sessions
+   * @param getOverlapThreshold Gets the share of an imported session that
+   * saved sessions must cover for it to be flagged as overlapping
+   */
+  constructor(
+    private readonly loadSessions: (
+      startDate: Date,
+      endDate: Date,
+    ) => TimeSession[],
+    private readonly saveSessions: (sessions: TimeSession[]) => void,
+    private readonly getOverlapThreshold: () => number,
+  ) {}
+
+  /**
+   * Reads an export and checks which of its sessions are new and which of
+   * those overlap saved sessions
+   * @param filePath Export file
+   * @param source Importer reading the file, detected from the content if
+   * not given
+   * @returns The preview, or undefined if the format is not recognized
+   */
+  public preview(
+    filePath: string,
+    source?: SessionImporter,
+  ): ImportPreview | undefined {
+    const content = fs.readFileSync(filePath, "utf8");
+    const importer = source ?? detectSessionImporter(content);
+    if (!importer) {
+      return undefined;
+    }
+
+    const { sessions, invalidEntries } = importer.parse(content);
+    if (sessions.length === 0) {
+      return {
+        source: importer,
+        sessions,
+        overlaps: new Map(),
+        duplicates: 0,
+        invalidEntries,
+      };
+    }
+
+    // Exports can be too long to spread into Math.min
+    const first = sessions.reduce((min, session) =>
+      session.startTime < min.startTime ? session : min,
+    );
+    const last = sessions.reduce((max, session) =>
+      (session.endTime ?? session.startTime) > (max.endTime ?? max.startTime)
+        ? session
+        : max,
+    );
+    const existing = this.loadSessions(
+      first.startTime,
+      last.endTime ?? last.startTime,
+    );
+    const newSessions = removeDuplicateSessions(sessions, existing).sort(
+      (a, b) => a.startTime.getTime() - b.startTime.getTime(),
+    );
+
+    return {
+      source: importer,
+      sessions: newSessions,
+      overlaps: findOverlappingSessions(
+        newSessions,
+        existing,
+        this.getOverlapThreshold(),
+      ),
+      duplicates: sessions.length - newSessions.length,
+      invalidEntries,
+    };
+  }
+
+  /**
+   * Saves previewed sessions
+   */
+  public importSessions(sessions: TimeSession[]): void {
+    this.saveSessions(sessions);
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  type ImportedEntry,
+  type ParsedImport,
+  type SessionImporter,
+  createImportedSessions,
+  getCsvColumns,
+  getImportedTime,
+  parseTags,
+  readCsvExport,
+} from "./sessionImporter";
+
+// Day, month and year of a date like 03/14/2024, 14.03.2024 or 14-03-2024
+const NUMERIC_DATE = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})$/;
+
+/**
+ * Converts a Clockify date to YYYY-MM-DD
+ * @param text Date in one of Clockify's date formats
+ * @param dayFirst Whether dates separated by slashes or dashes put the day
+ * before the month; dotted dates always do
+ */
+function toDayKey(text: string | undefined, dayFirst: boolean): string {
+  const match = NUMERIC_DATE.exec(text ?? "");
+  if (!match) {
+    return text ?? "";
+  }
+
+  const [, first, separator, second, year] = match;
+  const [day, month] =
+    dayFirst || separator === "." ? [first, second] : [second, first];
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+/**
+ * Reads the detailed CSV report of Clockify
+ *
+ * Dates and times follow the exporting user's format settings: dates may be
+ * written year first, month first or day first, and times in 12 or 24-hour
+ * format. Month-first is Clockify's default, so slashed dates are read that
+ * way unless a date in the file only makes sense day first.
+ */
+export class ClockifyImporter implements SessionImporter {
+  public readonly kind = "clockify";
+  public readonly label = "Clockify";
+
+  public canParse(content: string): boolean {
+    const columns = getCsvColumns(content);
+    return ["start date", "start time", "duration (h)"].every((column) =>
+      columns.includes(column),
+    );
+  }
+
+  public parse(content: string): ParsedImport {
+    const records = readCsvExport(content);
+    const dayFirst = records.some((record) =>
+      [record["start date"], record["end date"]].some(
+        (date) => Number(NUMERIC_DATE.exec(date ?? "")?.[1]) > 12,
+      ),
+    );
+
+    const entries: ImportedEntry[] = [];
+    let invalidEntries = 0;
+
+    for (const record of records) {
+      const startTime = getImportedTime(
+        toDayKey(record["start date"], dayFirst),
+        record["start time"],
+      );
+      const endTime = getImportedTime(
+        toDayKey(record["end date"], dayFirst),
+        record["end time"],
+      );
+      if (!startTime || !endTime) {
+        invalidEntries++;
+        continue;
+      }
+
+      entries.push({
+        startTime,
+        endTime,
+        project: record.project,
+        description: [record.task, record.description]
+          .filter(Boolean)
+          .join(": "),
+        tags: parseTags(record.tags),
+      });
+    }
+
+    const parsed = createImportedSessions(this, entries);
+    return {
+      ...parsed,
+      invalidEntries: parsed.invalidEntries + invalidEntries,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { SESSION_CATEGORIES, type TimeSession } from "../../models/timeTracker";
+import { parseCSVLine, parseCSVRecords } from "../../utils/csvUtils";
+import { getTimeOnDay } from "../../utils/timeUtils";
+
+/**
+ * Identifies one of the trackers sessions can be imported from
+ */
+export type ImportSourceKind = "toggl" | "clockify" | "wakatime";
+
+/**
+ * Sessions read from an export of another tracker
+ */
+export interface ParsedImport {
+  sessions: TimeSession[];
+  invalidEntries: number; // entries that could not be read and were skipped
+}
+
+/**
+ * Reads time entries from an export of another tracker
+ *
+ * Importers only parse; checking for duplicates and saving the sessions is
+ * left to the `ImportService`.
+ */
+export interface SessionImporter {
+  readonly kind: ImportSourceKind;
+  readonly label: string;
+
+  /**
+   * Checks whether content looks like an export this importer reads
+   */
+  canParse(content: string): boolean;
+
+  /**
+   * Reads the time entries of an export as ended sessions
+   */
+  parse(content: string): ParsedImport;
+}
+
+/**
+ * Time entry of another tracker, before it is turned into a session
+ */
+export interface ImportedEntry {
+  startTime: Date;
+  endTime: Date;
+  project: string;
+  description?: string;
+  category?: string;
+  tags?: string[]; // a tag naming a session category sets the category
+  fileName?: string;
+  filePath?: string;
+  branch?: string;
+}
+
+/**
+ * Gets the column names of a CSV export in lower case
+ */
+export function getCsvColumns(content: string): string[] {
+  const [header = ""] = content.replace(/^\ufeff/, "").split(/\r?\n/, 1);
+  return parseCSVLine(header).map((column) => column.trim().toLowerCase());
+}
+
+/**
+ * Reads the rows of a CSV export, keyed by lower case column name
+ */
+export function readCsvExport(content: string): Record<string, string>[] {
+  return parseCSVRecords(content).map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([column, value]) => [
+        column.toLowerCase(),
+        value.trim(),
+      ]),
+    ),
+  );
+}
+
+/**
+ * Parses a time of day like "09:05", "09:05:30" or "9:05:30 PM"
+ * @returns The hour (0-23), minute and second, or undefined if the text is
+ * not a time of day
+ */
+export function parseTimeOfDay(
+  text: string,
+): { hour: number; minute: number; second: number } | undefined {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/.exec(
+    text.trim(),
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const second = Number(match[3] ?? 0);
+  const meridiem = match[4]?.toUpperCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return undefined;
+    }
+    hour = (hour % 12) + (meridiem === "PM" ? 12 : 0);
+  }
+
+  return hour < 24 && minute < 60 && second < 60
+    ? { hour, minute, second }
+    : undefined;
+}
+
+/**
+ * Gets the moment a wall clock time occurs on a day in the day bucketing
+ * time zone, the zone exported times are assumed to be in
+ * @param dayKey Day formatted as YYYY-MM-DD
+ * @param time Time of day, e.g. "09:05:30" or "9:05:30 PM"
+ * @returns The moment, or undefined if the time cannot be read
+ */
+export function getImportedTime(
+  dayKey: string | undefined,
+  time: string | undefined,
+): Date | undefined {
+  const timeOfDay = parseTimeOfDay(time ?? "");
+  if (!dayKey || !/^\d{4}-\d{2}-\d{2}$/.test(dayKey) || !timeOfDay) {
+    return undefined;
+  }
+
+  const date = getTimeOnDay(dayKey, timeOfDay.hour, timeOfDay.minute);
+  return new Date(date.getTime() + timeOfDay.second * 1000);
+}
+
+/**
+ * Splits a tag list like "billable, Meeting" into tags
+ */
+export function parseTags(text: string | undefined): string[] {
+  return (text ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Gets the session category matching one of the tags, ignoring case
+ */
+function getCategory(tags: string[] | undefined): string | undefined {
+  for (const tag of tags ?? []) {
+    const category = SESSION_CATEGORIES.find(
+      (category) => category.toLowerCase() === tag.toLowerCase(),
+    );
+    if (category) {
+      return category;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turns imported entries into sessions
+ * Ids are derived from the source and start time, so importing the same
+ * export again produces the same ids
+ * @param source Tracker the entries were exported from
+ * @param entries Entries to convert; entries that do not end after they
+ * start are counted as invalid
+ */
+export function createImportedSessions(
+  source: SessionImporter,
+  entries: ImportedEntry[],
+): ParsedImport {
+  const ids = new Set<string>();
+  const sessions: TimeSession[] = [];
+  let invalidEntries = 0;
+
+  for (const entry of entries) {
+    const duration = entry.endTime.getTime() - entry.startTime.getTime();
+    if (!(duration > 0)) {
+      invalidEntries++;
+      continue;
+    }
+
+    // Entries of several users can start at the same time in team exports
+    const baseId = `${source.kind}-${entry.startTime.getTime()}`;
+    let id = baseId;
+    for (let index = 2; ids.has(id); index++) {
+      id = `${baseId}-${index}`;
+    }
+    ids.add(id);
+
+    sessions.push({
+      id,
+      fileName: entry.fileName ?? `Imported from ${source.label}`,
+      filePath: entry.filePath ?? "",
+      project: entry.project || "No Project",
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      duration,
+      category: entry.category ?? getCategory(entry.tags),
+      notes: entry.description || undefined,
+      branch: entry.branch || undefined,
+    });
+  }
+
+  return { sessions, invalidEntries };
+}
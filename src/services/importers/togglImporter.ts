@@ -0,0 +1,62 @@
+import {
+  type ImportedEntry,
+  type ParsedImport,
+  type SessionImporter,
+  createImportedSessions,
+  getCsvColumns,
+  getImportedTime,
+  parseTags,
+  readCsvExport,
+} from "./sessionImporter";
+
+/**
+ * Reads the detailed CSV report of Toggl Track
+ *
+ * Dates are YYYY-MM-DD and times 24-hour HH:MM:SS in the time zone of the
+ * exporting user's profile. The task, if any, is kept in the notes.
+ */
+export class TogglImporter implements SessionImporter {
+  public readonly kind = "toggl";
+  public readonly label = "Toggl Track";
+
+  public canParse(content: string): boolean {
+    const columns = getCsvColumns(content);
+    // Clockify uses the same columns, but names its duration "Duration (h)"
+    return ["description", "start date", "start time", "duration"].every(
+      (column) => columns.includes(column),
+    );
+  }
+
+  public parse(content: string): ParsedImport {
+    const entries: ImportedEntry[] = [];
+    let invalidEntries = 0;
+
+    for (const record of readCsvExport(content)) {
+      const startTime = getImportedTime(
+        record["start date"],
+        record["start time"],
+      );
+      const endTime = getImportedTime(record["end date"], record["end time"]);
+      if (!startTime || !endTime) {
+        invalidEntries++;
+        continue;
+      }
+
+      entries.push({
+        startTime,
+        endTime,
+        project: record.project,
+        description: [record.task, record.description]
+          .filter(Boolean)
+          .join(": "),
+        tags: parseTags(record.tags),
+      });
+    }
+
+    const parsed = createImportedSessions(this, entries);
+    return {
+      ...parsed,
+      invalidEntries: parsed.invalidEntries + invalidEntries,
+    };
+  }
+}
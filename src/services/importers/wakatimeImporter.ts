@@ -0,0 +1,185 @@
+import * as path from "node:path";
+import { addDays, getStartOfDay } from "../../utils/timeUtils";
+import {
+  type ImportedEntry,
+  type ParsedImport,
+  type SessionImporter,
+  createImportedSessions,
+} from "./sessionImporter";
+
+/**
+ * Heartbeat in a WakaTime data dump, sent while a file was being edited
+ */
+interface WakaTimeHeartbeat {
+  time?: number; // unix time in seconds
+  entity?: string; // file path, app or domain
+  type?: string;
+  project?: string;
+  branch?: string;
+  category?: string;
+}
+
+/**
+ * Day in a WakaTime data dump, with heartbeats if they were included in the
+ * export and otherwise only the totals per project
+ */
+interface WakaTimeDay {
+  date?: string;
+  heartbeats?: WakaTimeHeartbeat[];
+  projects?: { name?: string; grand_total?: { total_seconds?: number } }[];
+}
+
+// Heartbeats further apart than WakaTime's default keystroke timeout belong
+// to separate sessions
+const HEARTBEAT_TIMEOUT = 15 * 60 * 1000;
+
+// Session categories of WakaTime's activity categories
+const CATEGORIES: Record<string, string> = {
+  coding: "Coding",
+  debugging: "Debugging",
+  "writing docs": "Documentation",
+  researching: "Research",
+  learning: "Research",
+  meeting: "Meeting",
+  communicating: "Meeting",
+  planning: "Planning",
+  "running tests": "Testing",
+  "writing tests": "Testing",
+  "manual testing": "Testing",
+};
+
+/**
+ * Reads the days of a WakaTime data dump
+ * @returns The days, or undefined if the content is not a data dump
+ */
+function readDays(content: string): WakaTimeDay[] | undefined {
+  try {
+    const dump = JSON.parse(content);
+    return Array.isArray(dump?.days) ? dump.days : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the JSON data dump of WakaTime
+ *
+ * Heartbeats are joined into sessions like WakaTime does: each heartbeat
+ * lasts until the next one unless they are more than 15 minutes apart.
+ * Dumps without heartbeats only have a total per project and day, so those
+ * sessions are placed one after another from the start of the day.
+ */
+export class WakaTimeImporter implements SessionImporter {
+  public readonly kind = "wakatime";
+  public readonly label = "WakaTime";
+
+  public canParse(content: string): boolean {
+    return readDays(content) !== undefined;
+  }
+
+  public parse(content: string): ParsedImport {
+    const days = readDays(content) ?? [];
+    const heartbeats = days.flatMap((day) => day.heartbeats ?? []);
+
+    const { entries, invalidEntries } =
+      heartbeats.length > 0
+        ? this.readHeartbeats(heartbeats)
+        : this.readProjectTotals(days);
+
+    const parsed = createImportedSessions(this, entries);
+    return {
+      ...parsed,
+      invalidEntries: parsed.invalidEntries + invalidEntries,
+    };
+  }
+
+  /**
+   * Joins heartbeats on the same file, project and branch into sessions
+   */
+  private readHeartbeats(heartbeats: WakaTimeHeartbeat[]): {
+    entries: ImportedEntry[];
+    invalidEntries: number;
+  } {
+    const valid = heartbeats
+      .filter((heartbeat) => typeof heartbeat.time === "number")
+      .sort((a, b) => (a.time ?? 0) - (b.time ?? 0));
+
+    const entries: ImportedEntry[] = [];
+    let current: ImportedEntry | undefined;
+    valid.forEach((heartbeat, index) => {
+      const time = (heartbeat.time ?? 0) * 1000;
+      // The last heartbeat has no next one to last until
+      const nextTime = (valid[index + 1]?.time ?? heartbeat.time ?? 0) * 1000;
+      const end = nextTime - time <= HEARTBEAT_TIMEOUT ? nextTime : time;
+
+      const entity = heartbeat.entity ?? "";
+      const isFile = heartbeat.type === undefined || heartbeat.type === "file";
+      const continues =
+        current &&
+        current.endTime.getTime() === time &&
+        current.project === (heartbeat.project ?? "") &&
+        current.branch === heartbeat.branch &&
+        current.filePath === (isFile ? entity : "");
+      if (current && continues) {
+        current.endTime = new Date(end);
+        return;
+      }
+
+      current = {
+        startTime: new Date(time),
+        endTime: new Date(end),
+        project: heartbeat.project ?? "",
+        category: CATEGORIES[heartbeat.category ?? ""],
+        fileName: entity ? path.basename(entity) : undefined,
+        filePath: isFile ? entity : "",
+        branch: heartbeat.branch,
+      };
+      entries.push(current);
+    });
+
+    // A heartbeat lasts until the next one, so a lone heartbeat has no
+    // duration and is not imported
+    return {
+      entries: entries.filter(
+        (entry) => entry.endTime.getTime() > entry.startTime.getTime(),
+      ),
+      invalidEntries: heartbeats.length - valid.length,
+    };
+  }
+
+  /**
+   * Creates a session per project and day from the daily totals
+   */
+  private readProjectTotals(days: WakaTimeDay[]): {
+    entries: ImportedEntry[];
+    invalidEntries: number;
+  } {
+    const entries: ImportedEntry[] = [];
+    let invalidEntries = 0;
+
+    for (const day of days) {
+      if (!day.date || !/^\d{4}-\d{2}-\d{2}$/.test(day.date)) {
+        invalidEntries++;
+        continue;
+      }
+
+      let start = getStartOfDay(day.date).getTime();
+      const dayEnd = getStartOfDay(addDays(day.date, 1)).getTime();
+      for (const project of day.projects ?? []) {
+        const seconds = project.grand_total?.total_seconds ?? 0;
+        const end = Math.min(start + Math.round(seconds * 1000), dayEnd);
+        if (end > start) {
+          entries.push({
+            startTime: new Date(start),
+            endTime: new Date(end),
+            project: project.name ?? "",
+            fileName: "WakaTime daily total",
+          });
+          start = end;
+        }
+      }
+    }
+
+    return { entries, invalidEntries };
+  }
+}
@@ -0,0 +1,78 @@
+import type { TimeSession } from "../models/timeTracker";
+import { getFocusedDuration } from "../utils/timeUtils";
+
+/**
+ * Parsed sessions of a single day, indexed for the report queries
+ */
+export interface CachedDay {
+  sessions: TimeSession[];
+  byProject: Map<string, TimeSession[]>;
+  byCategory: Map<string, TimeSession[]>;
+  totalDuration: number; // active time, without unfocused segments
+}
+
+/**
+ * In-memory cache of parsed sessions keyed by day (YYYY-MM-DD)
+ */
+export class SessionCache {
+  private days = new Map<string, CachedDay>();
+
+  /**
+   * Gets the cached sessions of a day, if present
+   */
+  public get(day: string): CachedDay | undefined {
+    return this.days.get(day);
+  }
+
+  /**
+   * Stores the sessions of a day and builds its indexes
+   */
+  public set(day: string, sessions: TimeSession[]): CachedDay {
+    const cachedDay: CachedDay = {
+      sessions,
+      byProject: this.index(sessions, (session) => session.project),
+      byCategory: this.index(
+        sessions,
+        (session) => session.category || "Uncategorized",
+      ),
+      totalDuration: getFocusedDuration(sessions),
+    };
+
+    this.days.set(day, cachedDay);
+    return cachedDay;
+  }
+
+  /**
+   * Drops the cached sessions of a day
+   */
+  public invalidate(day: string): void {
+    this.days.delete(day);
+  }
+
+  /**
+   * Drops all cached sessions
+   */
+  public invalidateAll(): void {
+    this.days.clear();
+  }
+
+  /**
+   * Groups sessions by a key
+   */
+  private index(
+    sessions: TimeSession[],
+    getKey: (session: TimeSession) => string,
+  ): Map<string, TimeSession[]> {
+    const index = new Map<string, TimeSession[]>();
+
+    for (const session of sessions) {
+      const key = getKey(session);
+      if (!index.has(key)) {
+        index.set(key, []);
+      }
+      index.get(key)?.push(session);
+    }
+
+    return index;
+  }
+}
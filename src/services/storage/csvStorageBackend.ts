@@ -0,0 +1,260 @@
+import * as fs from "node:fs";
+import * as vscode from "vscode";
+import type { TimeSession } from "../../models/timeTracker";
+import { escapeCSV, parseCSVLine, parseCSVValue } from "../../utils/csvUtils";
+import { withFileLock } from "../../utils/fileLock";
+import { FileStorageBackend } from "./fileStorageBackend";
+
+/**
+ * Columns of a CSV day file, in the order they are written
+ * New columns are only ever added at the end; files with an older header are
+ * read by column name and upgraded the next time a session is saved to them
+ */
+const CSV_COLUMNS = [
+  "id",
+  "fileName",
+  "filePath",
+  "project",
+  "startTime",
+  "endTime",
+  "duration",
+  "category",
+  "notes",
+  "parentId",
+  "focused",
+  "repositoryRoot",
+  "branch",
+  "startCommit",
+  "endCommit",
+  "ticket",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+/**
+ * Storage backend that keeps one human-readable CSV file per day
+ */
+export class CsvStorageBackend extends FileStorageBackend {
+  public readonly kind = "csv";
+  protected readonly fileExtension = ".csv";
+  private readonly CSV_HEADER = CSV_COLUMNS.join(",");
+
+  /**
+   * Ensures that the CSV file for a specific day exists with headers
+   */
+  private ensureFileExists(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      try {
+        fs.writeFileSync(filePath, `${this.CSV_HEADER}\n`, "utf8");
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to create CSV file: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Saves a time tracking session to the appropriate day's CSV file
+   */
+  public saveSession(session: TimeSession): void {
+    this.saveSessions([session]);
+  }
+
+  /**
+   * Appends sessions to their day files
+   * A session that already exists is written again as a replacement record;
+   * the last record for an id wins when reading and compaction drops the rest
+   * @throws If a day file can't be written
+   */
+  public saveSessions(sessions: TimeSession[]): void {
+    for (const [filePath, newSessions] of this.groupSessionsByFile(sessions)) {
+      const lines = newSessions.map(
+        (session) => `${this.formatCSVRow(session)}\n`,
+      );
+
+      // Other windows append to the same file
+      withFileLock(filePath, () => {
+        // Ensure file exists
+        this.ensureFileExists(filePath);
+
+        // Rows are written with the current columns
+        if (this.readHeader(filePath) !== this.CSV_HEADER) {
+          this.writeSessionsToFile(
+            this.readSessionsFromFile(filePath),
+            filePath,
+          );
+        }
+
+        // Never continue a partial line left behind by an interrupted write
+        const prefix = this.endsWithNewline(filePath) ? "" : "\n";
+        fs.appendFileSync(filePath, prefix + lines.join(""), "utf8");
+      });
+    }
+
+    // Periodically fold replacement records back into single rows
+    this.compactPendingFiles();
+  }
+
+  /**
+   * Reads the header line of a CSV file
+   */
+  private readHeader(filePath: string): string {
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(1024);
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+      return buffer.toString("utf8", 0, bytesRead).split(/\r?\n/)[0];
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Formats a session as a CSV row (without line break)
+   */
+  private formatCSVRow(session: TimeSession): string {
+    const values: Record<CsvColumn, string | number> = {
+      id: session.id,
+      fileName: escapeCSV(session.fileName),
+      filePath: escapeCSV(session.filePath),
+      project: escapeCSV(session.project),
+      startTime: session.startTime.toISOString(),
+      endTime: session.endTime ? session.endTime.toISOString() : "",
+      duration: session.duration,
+      category: escapeCSV(session.category),
+      notes: escapeCSV(session.notes),
+      parentId: escapeCSV(session.parentId),
+      focused: session.focused === undefined ? "" : String(session.focused),
+      repositoryRoot: escapeCSV(session.repositoryRoot),
+      branch: escapeCSV(session.branch),
+      startCommit: session.startCommit ?? "",
+      endCommit: session.endCommit ?? "",
+      ticket: escapeCSV(session.ticket),
+    };
+
+    return CSV_COLUMNS.map((column) => values[column]).join(",");
+  }
+
+  /**
+   * Rewrites a day file so it contains exactly one record per session
+   * The new content is written to a temporary file and renamed over the
+   * original, so a crash mid-write never truncates earlier sessions
+   */
+  protected writeSessionsToFile(
+    sessions: TimeSession[],
+    filePath: string,
+  ): void {
+    const fileContent = [
+      this.CSV_HEADER,
+      ...sessions.map((session) => this.formatCSVRow(session)),
+    ]
+      .map((line) => `${line}\n`)
+      .join("");
+
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, fileContent, "utf8");
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Parses a CSV row into a session
+   * @param line The row to parse
+   * @param columns The column names from the file's header
+   * @param minValues Number of values a complete row has
+   * @returns The session, or undefined if the row is incomplete
+   */
+  private parseCSVRow(
+    line: string,
+    columns: string[],
+    minValues: number,
+  ): TimeSession | undefined {
+    const values = parseCSVLine(line);
+    const field = (column: CsvColumn): string => {
+      const index = columns.indexOf(column);
+      return index >= 0 && values[index] ? parseCSVValue(values[index]) : "";
+    };
+
+    const startTime = new Date(field("startTime"));
+    if (
+      !field("id") ||
+      values.length < minValues ||
+      !/^\d+(\.\d+)?$/.test(field("duration")) ||
+      Number.isNaN(startTime.getTime())
+    ) {
+      return undefined;
+    }
+
+    return {
+      id: field("id"),
+      fileName: field("fileName"),
+      filePath: field("filePath"),
+      project: field("project"),
+      startTime,
+      endTime: field("endTime") ? new Date(field("endTime")) : undefined,
+      duration: Number(field("duration")),
+      category: field("category") || undefined,
+      notes: field("notes") || undefined,
+      parentId: field("parentId") || undefined,
+      focused: field("focused") ? field("focused") === "true" : undefined,
+      repositoryRoot: field("repositoryRoot") || undefined,
+      branch: field("branch") || undefined,
+      startCommit: field("startCommit") || undefined,
+      endCommit: field("endCommit") || undefined,
+      ticket: field("ticket") || undefined,
+    };
+  }
+
+  /**
+   * Loads sessions from a specific CSV file
+   * @throws If the file exists but can't be read
+   */
+  public readSessionsFromFile(filePath: string): TimeSession[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    const fileContent = fs.readFileSync(filePath, "utf8");
+    const lines = fileContent.split(/\r?\n/);
+
+    // Map columns by the header, older files have fewer columns
+    const header = lines.shift();
+    const columns = header ? parseCSVLine(header) : [...CSV_COLUMNS];
+
+    // Rows written with the current header have every column; rows of
+    // older versions are only known to have the columns up to the duration
+    const minValues =
+      columns.join(",") === this.CSV_HEADER
+        ? columns.length
+        : columns.indexOf("duration") + 1;
+
+    // Later records replace earlier ones with the same id
+    const sessionsById = new Map<string, TimeSession>();
+    let supersededRecords = 0;
+
+    for (const line of lines) {
+      // Skip empty lines
+      if (line.trim() === "") {
+        continue;
+      }
+
+      const session = this.parseCSVRow(line, columns, minValues);
+      if (!session) {
+        // Skip a partially written line left behind by an interrupted write
+        continue;
+      }
+
+      if (sessionsById.has(session.id)) {
+        supersededRecords++;
+      }
+      sessionsById.set(session.id, session);
+    }
+
+    if (supersededRecords >= this.COMPACTION_THRESHOLD) {
+      this.filesToCompact.add(filePath);
+    }
+
+    return Array.from(sessionsById.values());
+  }
+}
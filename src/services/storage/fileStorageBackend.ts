@@ -0,0 +1,311 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { TimeSession } from "../../models/timeTracker";
+import { withFileLock } from "../../utils/fileLock";
+import {
+  formatDate,
+  getDayKeysInRange,
+  getFocusedDuration,
+  isFocusedSession,
+} from "../../utils/timeUtils";
+import type {
+  CategoryStat,
+  DailyStat,
+  StorageBackend,
+  StorageBackendKind,
+} from "./storageBackend";
+
+/**
+ * Base class for backends that keep one data file per day
+ * (`time-tracking-YYYY-MM-DD.<extension>`) in the storage directory
+ */
+export abstract class FileStorageBackend implements StorageBackend {
+  public abstract readonly kind: StorageBackendKind;
+  protected abstract readonly fileExtension: string;
+  // Number of superseded records in a day file before it gets compacted
+  protected readonly COMPACTION_THRESHOLD = 20;
+  // Day files read with at least COMPACTION_THRESHOLD superseded records
+  protected readonly filesToCompact = new Set<string>();
+
+  constructor(protected readonly baseDirectory: string) {}
+
+  /**
+   * Reads all sessions stored in a single day file
+   * Used to rewrite the file, so a file that can't be read must not be
+   * mistaken for an empty one
+   * @throws If the file exists but can't be read
+   */
+  protected abstract readSessionsFromFile(filePath: string): TimeSession[];
+
+  /**
+   * Reads the sessions of a day file to show them, reporting a file that
+   * can't be read instead of throwing; never rewrite a file with the result
+   */
+  private loadSessionsFromFile(filePath: string): TimeSession[] {
+    try {
+      return this.readSessionsFromFile(filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to load time tracking data: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  }
+
+  public abstract saveSession(session: TimeSession): void;
+
+  public abstract saveSessions(sessions: TimeSession[]): void;
+
+  public deleteSession(session: TimeSession): void {
+    const filePath = this.getFilePathForDay(session.startTime);
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    // Rewrite the file under its lock, keeping rows appended by other windows
+    withFileLock(filePath, () => {
+      const remaining = this.readSessionsFromFile(filePath).filter(
+        (stored) => stored.id !== session.id,
+      );
+      if (remaining.length > 0) {
+        this.writeSessionsToFile(remaining, filePath);
+      } else {
+        fs.unlinkSync(filePath);
+      }
+    });
+  }
+
+  /**
+   * Replaces the content of a day file with the given sessions
+   * Must write atomically, the caller holds the file's lock
+   */
+  protected abstract writeSessionsToFile(
+    sessions: TimeSession[],
+    filePath: string,
+  ): void;
+
+  /**
+   * Checks whether a file is missing, empty or ends with a line break, so a
+   * record appended to it starts on its own line
+   */
+  protected endsWithNewline(filePath: string): boolean {
+    if (!fs.existsSync(filePath)) {
+      return true;
+    }
+    const { size } = fs.statSync(filePath);
+    if (size === 0) {
+      return true;
+    }
+
+    const fd = fs.openSync(filePath, "r");
+    try {
+      const buffer = Buffer.alloc(1);
+      fs.readSync(fd, buffer, 0, 1, size - 1);
+      return buffer[0] === 0x0a;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Compacts a day file by dropping superseded replacement records
+   */
+  private compactFile(filePath: string): void {
+    try {
+      // Read under the lock so records appended by other windows are kept
+      withFileLock(filePath, () =>
+        this.writeSessionsToFile(this.readSessionsFromFile(filePath), filePath),
+      );
+      this.filesToCompact.delete(filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to compact time tracking data: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Compacts the day files that accumulated replacement records
+   */
+  protected compactPendingFiles(): void {
+    for (const filePath of this.filesToCompact) {
+      this.compactFile(filePath);
+    }
+  }
+
+  /**
+   * Gets the data file path for a specific day
+   * @param day A date, or a day formatted as YYYY-MM-DD
+   */
+  protected getFilePathForDay(day: Date | string): string {
+    const dateString = typeof day === "string" ? day : formatDate(day);
+    return path.join(
+      this.baseDirectory,
+      `time-tracking-${dateString}${this.fileExtension}`,
+    );
+  }
+
+  /**
+   * Groups sessions by the data file they belong to
+   */
+  protected groupSessionsByFile(
+    sessions: TimeSession[],
+  ): Map<string, TimeSession[]> {
+    const sessionsByFile = new Map<string, TimeSession[]>();
+
+    for (const session of sessions) {
+      const filePath = this.getFilePathForDay(new Date(session.startTime));
+      if (!sessionsByFile.has(filePath)) {
+        sessionsByFile.set(filePath, []);
+      }
+      sessionsByFile.get(filePath)?.push(session);
+    }
+
+    return sessionsByFile;
+  }
+
+  /**
+   * Gets all data files in the base directory
+   */
+  protected getAvailableDataFiles(): string[] {
+    try {
+      const files = fs
+        .readdirSync(this.baseDirectory)
+        .filter(
+          (file) =>
+            file.endsWith(this.fileExtension) &&
+            file.startsWith("time-tracking-"),
+        )
+        .map((file) => path.join(this.baseDirectory, file));
+      return files;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to read directory: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  }
+
+  public loadSessions(startDate?: Date, endDate?: Date): TimeSession[] {
+    let allSessions: TimeSession[] = [];
+
+    if (startDate && endDate) {
+      // Load sessions for date range
+      for (const day of getDayKeysInRange(startDate, endDate)) {
+        const filePath = this.getFilePathForDay(day);
+        const dailySessions = this.loadSessionsFromFile(filePath);
+        allSessions = [...allSessions, ...dailySessions];
+      }
+    } else {
+      // Load all available sessions
+      const files = this.getAvailableDataFiles();
+      for (const file of files) {
+        const dailySessions = this.loadSessionsFromFile(file);
+        allSessions = [...allSessions, ...dailySessions];
+      }
+    }
+
+    // Sort by start time
+    allSessions.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    return allSessions;
+  }
+
+  public getCategoryStats(startDate?: Date, endDate?: Date): CategoryStat[] {
+    // Get all sessions in the date range
+    const sessions = this.loadSessions(startDate, endDate);
+
+    // Group by category and sum durations
+    const categoryMap = new Map<string, number>();
+
+    for (const session of sessions.filter(isFocusedSession)) {
+      const category = session.category || "Uncategorized";
+      const currentValue = categoryMap.get(category) || 0;
+      categoryMap.set(category, currentValue + session.duration);
+    }
+
+    // Convert map to array
+    return Array.from(categoryMap.entries()).map(([category, duration]) => ({
+      category,
+      duration,
+    }));
+  }
+
+  public getProjectTotalTime(
+    project: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): number {
+    // Get all sessions in the date range
+    const sessions = this.loadSessions(startDate, endDate);
+
+    // Sum durations for the specified project
+    return getFocusedDuration(
+      sessions.filter((session) => session.project === project),
+    );
+  }
+
+  public getDailyStats(startDate: Date, endDate: Date): DailyStat[] {
+    const result: DailyStat[] = [];
+
+    for (const day of getDayKeysInRange(startDate, endDate)) {
+      const filePath = this.getFilePathForDay(day);
+      const dailySessions = this.loadSessionsFromFile(filePath);
+
+      const totalDuration = getFocusedDuration(dailySessions);
+
+      result.push({
+        date: day,
+        duration: totalDuration,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves sessions that are stored in the file of another day than the one
+   * they start on in the current day bucketing time zone
+   */
+  public rebucketDays(): number {
+    let movedSessions = 0;
+
+    for (const filePath of this.getAvailableDataFiles()) {
+      // The file is read again under its lock before it is rewritten
+      const misplaced = this.loadSessionsFromFile(filePath).filter(
+        (session) => this.getFilePathForDay(session.startTime) !== filePath,
+      );
+      if (misplaced.length === 0) {
+        continue;
+      }
+
+      // Save to the correct day first, so an interruption can only leave a
+      // duplicate behind that the next run cleans up
+      this.saveSessions(misplaced);
+
+      const misplacedIds = new Set(misplaced.map((session) => session.id));
+      withFileLock(filePath, () => {
+        const remaining = this.readSessionsFromFile(filePath).filter(
+          (session) => !misplacedIds.has(session.id),
+        );
+        if (remaining.length > 0) {
+          this.writeSessionsToFile(remaining, filePath);
+        } else {
+          fs.unlinkSync(filePath);
+        }
+      });
+
+      movedSessions += misplaced.length;
+    }
+
+    return movedSessions;
+  }
+
+  /**
+   * Compacts day files that accumulated replacement records
+   */
+  public close(): void {
+    this.compactPendingFiles();
+  }
+}
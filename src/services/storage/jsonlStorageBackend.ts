@@ -0,0 +1,105 @@
+import * as fs from "node:fs";
+import type { TimeSession } from "../../models/timeTracker";
+import { withFileLock } from "../../utils/fileLock";
+import { FileStorageBackend } from "./fileStorageBackend";
+
+/**
+ * Storage backend that appends one JSON record per line to a file per day
+ *
+ * Saving a session that already exists appends a replacement record, and the
+ * last record for an id wins when reading. Files with many replacement
+ * records are compacted like CSV day files.
+ */
+export class JsonlStorageBackend extends FileStorageBackend {
+  public readonly kind = "jsonl";
+  protected readonly fileExtension = ".jsonl";
+
+  public saveSession(session: TimeSession): void {
+    this.saveSessions([session]);
+  }
+
+  /**
+   * Appends sessions to their day files
+   * @throws If a day file can't be written
+   */
+  public saveSessions(sessions: TimeSession[]): void {
+    for (const [filePath, newSessions] of this.groupSessionsByFile(sessions)) {
+      const lines = newSessions.map(
+        (session) => `${this.serializeSession(session)}\n`,
+      );
+      // Other windows append to the same file
+      withFileLock(filePath, () => {
+        // Never continue a partial line left behind by an interrupted write
+        const prefix = this.endsWithNewline(filePath) ? "" : "\n";
+        fs.appendFileSync(filePath, prefix + lines.join(""), "utf8");
+      });
+    }
+
+    // Periodically fold replacement records back into single records
+    this.compactPendingFiles();
+  }
+
+  /**
+   * Rewrites a day file with one record per session
+   * The new content is written to a temporary file and renamed over the original
+   */
+  protected writeSessionsToFile(
+    sessions: TimeSession[],
+    filePath: string,
+  ): void {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(
+      tempPath,
+      sessions.map((session) => `${this.serializeSession(session)}\n`).join(""),
+      "utf8",
+    );
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Converts a session to a single line of JSON
+   */
+  private serializeSession(session: TimeSession): string {
+    return JSON.stringify({
+      ...session,
+      startTime: session.startTime.toISOString(),
+      endTime: session.endTime?.toISOString(),
+    });
+  }
+
+  protected readSessionsFromFile(filePath: string): TimeSession[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+    const sessionsById = new Map<string, TimeSession>();
+    let supersededRecords = 0;
+
+    for (const line of lines) {
+      if (line.trim() === "") {
+        continue;
+      }
+
+      try {
+        const record = JSON.parse(line);
+        if (sessionsById.has(record.id)) {
+          supersededRecords++;
+        }
+        sessionsById.set(record.id, {
+          ...record,
+          startTime: new Date(record.startTime),
+          endTime: record.endTime ? new Date(record.endTime) : undefined,
+        });
+      } catch {
+        // Skip a partially written last line left behind by a crash
+      }
+    }
+
+    if (supersededRecords >= this.COMPACTION_THRESHOLD) {
+      this.filesToCompact.add(filePath);
+    }
+
+    return Array.from(sessionsById.values());
+  }
+}
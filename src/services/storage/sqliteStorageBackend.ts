@@ -0,0 +1,361 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import initSqlJs = require("sql.js");
+import type { TimeSession } from "../../models/timeTracker";
+import { withFileLock } from "../../utils/fileLock";
+import { formatDate, getDayKeysInRange } from "../../utils/timeUtils";
+import type { CategoryStat, DailyStat, StorageBackend } from "./storageBackend";
+
+/**
+ * Columns added after the first release of the schema, with their types
+ * Added to existing databases when they are opened
+ */
+const ADDED_COLUMNS: [name: string, type: string][] = [
+  ["parentId", "TEXT"],
+  ["focused", "INTEGER"],
+  ["repositoryRoot", "TEXT"],
+  ["branch", "TEXT"],
+  ["startCommit", "TEXT"],
+  ["endCommit", "TEXT"],
+  ["ticket", "TEXT"],
+];
+
+/**
+ * Condition for sessions that count as active time (not unfocused segments)
+ */
+const FOCUSED_FILTER = "COALESCE(focused, 1) = 1";
+
+/**
+ * Storage backend that keeps all sessions in a single SQLite database file
+ *
+ * Uses the WebAssembly build of SQLite bundled with the extension, so no
+ * native module is needed. The database is held in memory, reloaded when
+ * another window has changed the file and written back after every change.
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  public readonly kind = "sqlite";
+  private lastModified = "";
+
+  private constructor(
+    private readonly SQL: initSqlJs.SqlJsStatic,
+    private db: initSqlJs.Database,
+    private readonly filePath: string,
+  ) {
+    this.createSchema();
+  }
+
+  /**
+   * Opens (or creates) the database file in the given directory
+   */
+  public static async open(
+    baseDirectory: string,
+  ): Promise<SqliteStorageBackend> {
+    const SQL = await initSqlJs({
+      // The WASM binary is copied next to the bundled extension
+      locateFile: (file: string) => path.join(__dirname, file),
+    });
+
+    const filePath = path.join(baseDirectory, "time-tracking.sqlite3");
+    const backend = new SqliteStorageBackend(SQL, new SQL.Database(), filePath);
+    backend.reloadIfChanged();
+    return backend;
+  }
+
+  /**
+   * Creates the sessions table and indexes if they don't exist yet
+   */
+  private createSchema(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        fileName TEXT NOT NULL,
+        filePath TEXT NOT NULL,
+        project TEXT NOT NULL,
+        startTime INTEGER NOT NULL,
+        endTime INTEGER,
+        duration INTEGER NOT NULL,
+        category TEXT,
+        notes TEXT,
+        day TEXT NOT NULL,
+        parentId TEXT,
+        focused INTEGER,
+        repositoryRoot TEXT,
+        branch TEXT,
+        startCommit TEXT,
+        endCommit TEXT,
+        ticket TEXT
+      );
+      CREATE INDEX IF NOT EXISTS sessions_day ON sessions (day);
+      CREATE INDEX IF NOT EXISTS sessions_project ON sessions (project);
+    `);
+
+    const [tableInfo] = this.db.exec("PRAGMA table_info(sessions)");
+    const existingColumns = new Set(tableInfo.values.map((row) => row[1]));
+    for (const [name, type] of ADDED_COLUMNS) {
+      if (!existingColumns.has(name)) {
+        this.db.run(`ALTER TABLE sessions ADD COLUMN ${name} ${type}`);
+      }
+    }
+  }
+
+  /**
+   * Reloads the database from disk if another window has written to it
+   */
+  private reloadIfChanged(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const { mtimeMs, size } = fs.statSync(this.filePath);
+    const modified = `${mtimeMs}:${size}`;
+    if (modified !== this.lastModified) {
+      this.db.close();
+      this.db = new this.SQL.Database(fs.readFileSync(this.filePath));
+      this.createSchema();
+      this.lastModified = modified;
+    }
+  }
+
+  /**
+   * Applies a change on top of the latest database on disk
+   * Holds a lock on the database file so concurrent writes from other
+   * windows are merged instead of overwritten
+   */
+  private modify(change: () => void): void {
+    withFileLock(this.filePath, () => {
+      this.reloadIfChanged();
+      change();
+      this.persist();
+    });
+  }
+
+  /**
+   * Writes the in-memory database back to disk
+   * The file is written to a temporary path first and then renamed so a crash
+   * mid-write never leaves a truncated database behind
+   */
+  private persist(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(this.db.export()));
+    fs.renameSync(tempPath, this.filePath);
+
+    const { mtimeMs, size } = fs.statSync(this.filePath);
+    this.lastModified = `${mtimeMs}:${size}`;
+  }
+
+  /**
+   * Builds the WHERE clause and parameters for an optional date range and
+   * additional conditions
+   */
+  private rangeFilter(
+    startDate?: Date,
+    endDate?: Date,
+    ...conditions: string[]
+  ): { where: string; params: initSqlJs.SqlValue[] } {
+    const where: string[] = [];
+    const params: initSqlJs.SqlValue[] = [];
+    if (startDate && endDate) {
+      where.push("day BETWEEN ? AND ?");
+      params.push(formatDate(startDate), formatDate(endDate));
+    }
+    where.push(...conditions);
+
+    return {
+      where: where.length > 0 ? `WHERE ${where.join(" AND ")}` : "",
+      params,
+    };
+  }
+
+  /**
+   * Runs a query and returns all rows as objects
+   */
+  private query(
+    sql: string,
+    params: initSqlJs.SqlValue[] = [],
+  ): initSqlJs.ParamsObject[] {
+    this.reloadIfChanged();
+
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: initSqlJs.ParamsObject[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  public saveSession(session: TimeSession): void {
+    this.saveSessions([session]);
+  }
+
+  public saveSessions(sessions: TimeSession[]): void {
+    this.modify(() => {
+      const statement = this.db.prepare(
+        `INSERT OR REPLACE INTO sessions
+          (id, fileName, filePath, project, startTime, endTime, duration, category, notes, day,
+            parentId, focused, repositoryRoot, branch, startCommit, endCommit, ticket)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      try {
+        this.db.run("BEGIN TRANSACTION");
+        for (const session of sessions) {
+          statement.run([
+            session.id,
+            session.fileName,
+            session.filePath,
+            session.project,
+            session.startTime.getTime(),
+            session.endTime ? session.endTime.getTime() : null,
+            session.duration,
+            session.category ?? null,
+            session.notes ?? null,
+            formatDate(session.startTime),
+            session.parentId ?? null,
+            session.focused === undefined ? null : Number(session.focused),
+            session.repositoryRoot ?? null,
+            session.branch ?? null,
+            session.startCommit ?? null,
+            session.endCommit ?? null,
+            session.ticket ?? null,
+          ]);
+        }
+        this.db.run("COMMIT");
+      } catch (error) {
+        this.db.run("ROLLBACK");
+        throw error;
+      } finally {
+        statement.free();
+      }
+    });
+  }
+
+  public deleteSession(session: TimeSession): void {
+    this.modify(() => {
+      // A session moved to another day may have been saved under the same id
+      this.db.run("DELETE FROM sessions WHERE id = ? AND day = ?", [
+        session.id,
+        formatDate(new Date(session.startTime)),
+      ]);
+    });
+  }
+
+  public loadSessions(startDate?: Date, endDate?: Date): TimeSession[] {
+    const { where, params } = this.rangeFilter(startDate, endDate);
+
+    return this.query(
+      `SELECT * FROM sessions ${where} ORDER BY startTime`,
+      params,
+    ).map((row) => ({
+      id: String(row.id),
+      fileName: String(row.fileName),
+      filePath: String(row.filePath),
+      project: String(row.project),
+      startTime: new Date(Number(row.startTime)),
+      endTime: row.endTime !== null ? new Date(Number(row.endTime)) : undefined,
+      duration: Number(row.duration),
+      category: row.category !== null ? String(row.category) : undefined,
+      notes: row.notes !== null ? String(row.notes) : undefined,
+      parentId: row.parentId !== null ? String(row.parentId) : undefined,
+      focused: row.focused !== null ? Boolean(row.focused) : undefined,
+      repositoryRoot:
+        row.repositoryRoot !== null ? String(row.repositoryRoot) : undefined,
+      branch: row.branch !== null ? String(row.branch) : undefined,
+      startCommit:
+        row.startCommit !== null ? String(row.startCommit) : undefined,
+      endCommit: row.endCommit !== null ? String(row.endCommit) : undefined,
+      ticket: row.ticket !== null ? String(row.ticket) : undefined,
+    }));
+  }
+
+  public getCategoryStats(startDate?: Date, endDate?: Date): CategoryStat[] {
+    const { where, params } = this.rangeFilter(
+      startDate,
+      endDate,
+      FOCUSED_FILTER,
+    );
+
+    return this.query(
+      `SELECT COALESCE(NULLIF(category, ''), 'Uncategorized') AS category,
+        SUM(duration) AS duration
+        FROM sessions ${where}
+        GROUP BY 1`,
+      params,
+    ).map((row) => ({
+      category: String(row.category),
+      duration: Number(row.duration),
+    }));
+  }
+
+  public getProjectTotalTime(
+    project: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): number {
+    const { where, params } = this.rangeFilter(
+      startDate,
+      endDate,
+      FOCUSED_FILTER,
+      "project = ?",
+    );
+
+    const [row] = this.query(
+      `SELECT COALESCE(SUM(duration), 0) AS duration FROM sessions ${where}`,
+      [...params, project],
+    );
+    return Number(row?.duration ?? 0);
+  }
+
+  public getDailyStats(startDate: Date, endDate: Date): DailyStat[] {
+    const { where, params } = this.rangeFilter(
+      startDate,
+      endDate,
+      FOCUSED_FILTER,
+    );
+    const totals = new Map<string, number>();
+
+    for (const row of this.query(
+      `SELECT day, SUM(duration) AS duration FROM sessions ${where} GROUP BY day`,
+      params,
+    )) {
+      totals.set(String(row.day), Number(row.duration));
+    }
+
+    // Include days without any sessions
+    return getDayKeysInRange(startDate, endDate).map((date) => ({
+      date,
+      duration: totals.get(date) ?? 0,
+    }));
+  }
+
+  public rebucketDays(): number {
+    let movedSessions = 0;
+
+    this.modify(() => {
+      const rows = this.query("SELECT id, startTime, day FROM sessions");
+      const statement = this.db.prepare(
+        "UPDATE sessions SET day = ? WHERE id = ?",
+      );
+      try {
+        for (const row of rows) {
+          const day = formatDate(new Date(Number(row.startTime)));
+          if (day !== row.day) {
+            statement.run([day, row.id]);
+            movedSessions++;
+          }
+        }
+      } finally {
+        statement.free();
+      }
+    });
+
+    return movedSessions;
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,98 @@
+import type { TimeSession } from "../../models/timeTracker";
+
+/**
+ * Identifies one of the available storage backend implementations
+ */
+export type StorageBackendKind = "csv" | "sqlite" | "jsonl";
+
+/**
+ * All storage backend kinds, in the order they are offered to the user
+ */
+export const STORAGE_BACKEND_KINDS: StorageBackendKind[] = [
+  "csv",
+  "sqlite",
+  "jsonl",
+];
+
+/**
+ * Time spent per category
+ */
+export interface CategoryStat {
+  category: string;
+  duration: number;
+}
+
+/**
+ * Time spent on a single day (YYYY-MM-DD)
+ */
+export interface DailyStat {
+  date: string;
+  duration: number;
+}
+
+/**
+ * Persists time tracking sessions
+ *
+ * Implementations are opened through `createStorageBackend` and keep all
+ * their data inside the configured storage directory.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+
+  /**
+   * Saves a session, replacing any stored session with the same id
+   * @throws If the session can't be written
+   */
+  saveSession(session: TimeSession): void;
+
+  /**
+   * Saves many sessions at once, replacing stored sessions with the same ids
+   * @throws If a session can't be written
+   */
+  saveSessions(sessions: TimeSession[]): void;
+
+  /**
+   * Deletes a stored session
+   * The session is looked up by its id on the day it starts
+   */
+  deleteSession(session: TimeSession): void;
+
+  /**
+   * Loads all sessions sorted by start time
+   * Can be limited to a date range
+   */
+  loadSessions(startDate?: Date, endDate?: Date): TimeSession[];
+
+  /**
+   * Gets statistics about time spent per category
+   * Can be limited to a date range
+   */
+  getCategoryStats(startDate?: Date, endDate?: Date): CategoryStat[];
+
+  /**
+   * Gets total time spent on a specific project
+   * Can be limited to a date range
+   */
+  getProjectTotalTime(
+    project: string,
+    startDate?: Date,
+    endDate?: Date,
+  ): number;
+
+  /**
+   * Gets stats by day for a date range
+   */
+  getDailyStats(startDate: Date, endDate: Date): DailyStat[];
+
+  /**
+   * Moves sessions to the day they start on in the current day bucketing
+   * time zone
+   * @returns The number of sessions that were moved
+   */
+  rebucketDays(): number;
+
+  /**
+   * Releases any resources held by the backend
+   */
+  close(): void;
+}
@@ -0,0 +1,382 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { isProcessAlive } from "../utils/fileLock";
+
+/**
+ * A webhook event waiting to be delivered, stored as one file in the outbox
+ */
+export interface WebhookDelivery {
+  id: string; // event id, sent as Webhook-Id
+  url: string;
+  endpoint?: string; // name or URL of the configured endpoint, for signing
+  type?: string; // event type, a payload template may leave it out
+  payload: string; // JSON body; headers and signature are added per attempt
+  createdAt: number; // unix time in milliseconds
+  attempts: number;
+  nextAttemptAt: number; // unix time in milliseconds
+  lastError?: string;
+}
+
+/**
+ * Retry policy of the outbox
+ */
+export interface WebhookRetryOptions {
+  baseDelay: number; // delay before the first retry in ms, doubled per retry
+  maxDelay: number; // longest delay between retries in ms
+  maxAge: number; // age in ms after which failed deliveries are dead-lettered
+}
+
+/**
+ * Retry policy used unless overridden: retries start after 30 seconds,
+ * back off to at most an hour apart and stop after a day
+ */
+export const DEFAULT_WEBHOOK_RETRY_OPTIONS: WebhookRetryOptions = {
+  baseDelay: 30 * 1000,
+  maxDelay: 60 * 60 * 1000,
+  maxAge: 24 * 60 * 60 * 1000,
+};
+
+// Suffix of deliveries claimed by a process that is sending them
+const SENDING_SUFFIX = ".sending-";
+
+/**
+ * Gets the delay before the next attempt of a delivery
+ * @param attempts Number of failed attempts so far, at least 1
+ * @param options Retry policy
+ */
+export function getRetryDelay(
+  attempts: number,
+  options: WebhookRetryOptions,
+): number {
+  return Math.min(
+    options.baseDelay * 2 ** Math.max(0, attempts - 1),
+    options.maxDelay,
+  );
+}
+
+/**
+ * Persistent queue of webhook deliveries in the storage directory
+ *
+ * Each event is written to the outbox before it is sent and removed once the
+ * endpoint accepted it, so events survive network failures, endpoint
+ * restarts and VS Code being closed. Failed deliveries are retried with
+ * exponential backoff; deliveries that still fail after the maximum age are
+ * moved to the `dead` folder, from where they can be replayed.
+ *
+ * Several VS Code windows share the outbox. A window claims a delivery by
+ * renaming its file before sending it, so each attempt is made once; claims
+ * of windows that crashed are released on the next flush.
+ */
+export class WebhookOutbox {
+  private readonly deadDirectory: string;
+  private flushing: Promise<void> | undefined;
+  private flushAgain = false;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private disposed = false;
+
+  /**
+   * Creates an outbox
+   * @param directory Directory the deliveries are stored in
+   * @param send Sends a delivery, throwing if the endpoint did not accept it
+   * @param options Retry policy
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly send: (delivery: WebhookDelivery) => Promise<void>,
+    private readonly options: WebhookRetryOptions = DEFAULT_WEBHOOK_RETRY_OPTIONS,
+  ) {
+    this.deadDirectory = path.join(directory, "dead");
+  }
+
+  /**
+   * Gets the directory the deliveries are stored in
+   */
+  public getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Adds an event to the outbox; it is sent on the next flush
+   * @param id Event id
+   * @param url Endpoint to deliver to
+   * @param payload JSON body
+   * @param endpoint Name of the configured endpoint the delivery is for
+   * @param type Event type, shown in the queue
+   */
+  public enqueue(
+    id: string,
+    url: string,
+    payload: string,
+    endpoint?: string,
+    type?: string,
+  ): WebhookDelivery {
+    const now = Date.now();
+    const delivery: WebhookDelivery = {
+      id,
+      url,
+      endpoint,
+      type,
+      payload,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.writeDelivery(this.getPath(delivery), delivery);
+    return delivery;
+  }
+
+  /**
+   * Sends all deliveries that are due, in the order they were queued, and
+   * schedules the next retry
+   * A flush requested while one is running runs again once it finishes
+   */
+  public flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          await this.sendDueDeliveries();
+        } while (this.flushAgain && !this.disposed);
+      } finally {
+        this.flushing = undefined;
+        this.scheduleRetry();
+      }
+    })();
+    return this.flushing;
+  }
+
+  /**
+   * Gets the deliveries waiting to be sent, oldest first
+   */
+  public getPending(): WebhookDelivery[] {
+    return this.readDeliveries(this.directory);
+  }
+
+  /**
+   * Gets the deliveries that were given up on, oldest first
+   */
+  public getDeadLetters(): WebhookDelivery[] {
+    return this.readDeliveries(this.deadDirectory);
+  }
+
+  /**
+   * Makes deliveries due now, e.g. when the user asks to retry
+   * @param ids Ids of the pending deliveries, all if not given
+   */
+  public retryNow(ids?: string[]): Promise<void> {
+    for (const delivery of this.getPending()) {
+      // Skip deliveries another window is sending right now
+      if (
+        (!ids || ids.includes(delivery.id)) &&
+        fs.existsSync(this.getPath(delivery))
+      ) {
+        this.writeDelivery(this.getPath(delivery), {
+          ...delivery,
+          nextAttemptAt: Date.now(),
+        });
+      }
+    }
+    return this.flush();
+  }
+
+  /**
+   * Moves dead-lettered deliveries back into the outbox with a fresh retry
+   * budget and sends them
+   * @param ids Ids of the dead deliveries, all if not given
+   */
+  public replay(ids?: string[]): Promise<void> {
+    const now = Date.now();
+    for (const delivery of this.getDeadLetters()) {
+      if (!ids || ids.includes(delivery.id)) {
+        const replayed = {
+          ...delivery,
+          createdAt: now,
+          attempts: 0,
+          nextAttemptAt: now,
+        };
+        this.writeDelivery(this.getPath(replayed), replayed);
+        fs.rmSync(this.getPath(delivery, this.deadDirectory), { force: true });
+      }
+    }
+    return this.flush();
+  }
+
+  /**
+   * Deletes deliveries without sending them
+   * @param ids Ids of the deliveries to delete
+   * @param dead Whether to delete dead-lettered instead of pending deliveries
+   */
+  public discard(ids: string[], dead: boolean): void {
+    const directory = dead ? this.deadDirectory : this.directory;
+    for (const delivery of this.readDeliveries(directory)) {
+      if (ids.includes(delivery.id)) {
+        fs.rmSync(this.getPath(delivery, directory), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Stops scheduled retries; queued deliveries stay in the outbox
+   */
+  public dispose(): void {
+    this.disposed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+
+  /**
+   * Sends each due delivery once
+   */
+  private async sendDueDeliveries(): Promise<void> {
+    this.releaseAbandonedClaims();
+
+    for (const delivery of this.getPending()) {
+      if (this.disposed) {
+        return;
+      }
+      if (delivery.nextAttemptAt > Date.now()) {
+        continue;
+      }
+
+      // Another window may have claimed or sent it in the meantime
+      const filePath = this.getPath(delivery);
+      const claimPath = `${filePath}${SENDING_SUFFIX}${process.pid}`;
+      try {
+        fs.renameSync(filePath, claimPath);
+      } catch {
+        continue;
+      }
+
+      try {
+        await this.send(delivery);
+      } catch (error) {
+        this.handleFailure(
+          delivery,
+          error instanceof Error ? error.message : String(error),
+        );
+      } finally {
+        fs.rmSync(claimPath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Schedules the next attempt of a failed delivery, or dead-letters it if
+   * the next attempt would be past the maximum age
+   */
+  private handleFailure(delivery: WebhookDelivery, error: string): void {
+    const attempts = delivery.attempts + 1;
+    const nextAttemptAt = Date.now() + getRetryDelay(attempts, this.options);
+    const failed = { ...delivery, attempts, nextAttemptAt, lastError: error };
+
+    if (nextAttemptAt - delivery.createdAt > this.options.maxAge) {
+      fs.mkdirSync(this.deadDirectory, { recursive: true });
+      this.writeDelivery(this.getPath(failed, this.deadDirectory), failed);
+    } else {
+      this.writeDelivery(this.getPath(failed), failed);
+    }
+  }
+
+  /**
+   * Returns deliveries claimed by processes that are no longer running to
+   * the outbox
+   */
+  private releaseAbandonedClaims(): void {
+    for (const file of this.listFiles(this.directory)) {
+      const index = file.lastIndexOf(SENDING_SUFFIX);
+      if (index === -1) {
+        continue;
+      }
+
+      const pid = Number(file.slice(index + SENDING_SUFFIX.length));
+      if (pid !== process.pid && !isProcessAlive(pid)) {
+        try {
+          fs.renameSync(
+            path.join(this.directory, file),
+            path.join(this.directory, file.slice(0, index)),
+          );
+        } catch {
+          // Released by another window
+        }
+      }
+    }
+  }
+
+  /**
+   * Schedules a flush for when the next delivery is due
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    const pending = this.getPending();
+    if (this.disposed || pending.length === 0) {
+      return;
+    }
+
+    const nextAttemptAt = pending.reduce(
+      (earliest, delivery) => Math.min(earliest, delivery.nextAttemptAt),
+      Number.POSITIVE_INFINITY,
+    );
+    this.retryTimer = setTimeout(
+      () => this.flush(),
+      Math.max(0, nextAttemptAt - Date.now()),
+    );
+  }
+
+  /**
+   * Gets the file of a delivery; names start with the creation time, so
+   * sorting them gives the queue order
+   */
+  private getPath(delivery: WebhookDelivery, directory = this.directory) {
+    return path.join(directory, `${delivery.createdAt}-${delivery.id}.json`);
+  }
+
+  /**
+   * Writes a delivery file in one step, so it is never read half-written
+   */
+  private writeDelivery(filePath: string, delivery: WebhookDelivery): void {
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(delivery), "utf8");
+    fs.renameSync(temporaryPath, filePath);
+  }
+
+  /**
+   * Lists the files of a directory, or none if it does not exist
+   */
+  private listFiles(directory: string): string[] {
+    try {
+      return fs.readdirSync(directory).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Reads the deliveries in a directory, skipping unreadable files
+   */
+  private readDeliveries(directory: string): WebhookDelivery[] {
+    return this.listFiles(directory)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((file) => {
+        try {
+          return [
+            JSON.parse(
+              fs.readFileSync(path.join(directory, file), "utf8"),
+            ) as WebhookDelivery,
+          ];
+        } catch {
+          return [];
+        }
+      });
+  }
+}
@@ -1,99 +1,536 @@
-import * as vscode from "vscode";
 import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
 import type { TimeSession } from "../models/timeTracker";
+import { withFileLock } from "../utils/fileLock";
+import { isFocusedSession } from "../utils/timeUtils";
+import { DatabaseService } from "./databaseService";
+import { type WebhookDelivery, WebhookOutbox } from "./webhookOutbox";
+import {
+  parseWebhookSecrets,
+  signWebhook,
+  validateWebhookSecrets,
+} from "./webhookSignature";
+import { getUnknownFormatters, renderWebhookTemplate } from "./webhookTemplate";
+
+// Time an endpoint has to answer before the attempt counts as failed
+const REQUEST_TIMEOUT = 10000;
+
+// Key of the secret of the endpoint set with webhookUrl in the secret
+// storage; other endpoints' keys add their name or URL
+const SECRET_KEY = "timeTracking.webhookSecret";
+
+// File in the outbox directory with the last day a summary was sent for
+const DAY_SUMMARY_FILE = "last-day-summary";
+
+/**
+ * Event types that can be sent to the webhook endpoint
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  "time.session.started",
+  "time.session.updated",
+  "time.session.completed",
+  "time.tracking.paused",
+  "time.tracking.resumed",
+  "time.idle.detected",
+  "time.day.summary",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * An endpoint webhook events are sent to, from the `timeTracking.webhooks`
+ * setting or the legacy `timeTracking.webhookUrl` and `webhookSecret`
+ */
+export interface WebhookEndpoint {
+  name?: string; // identifies the endpoint's queued events, the URL if not set
+  url: string;
+  legacy?: boolean; // set with webhookUrl instead of in the webhooks setting
+  secret?: string; // secrets separated by spaces while rotating, moved to the secret storage on activation if in the user settings
+  events: WebhookEventType[];
+  projects?: string[]; // only events of these projects, all if empty
+  headers?: Record<string, string>; // added to every request
+  template?: unknown; // JSON payload with placeholders, the event if not set
+}
+
+/**
+ * Gets the key that identifies the queued deliveries of an endpoint
+ */
+function getEndpointKey(endpoint: WebhookEndpoint): string {
+  return endpoint.name || endpoint.url;
+}
+
+/**
+ * Gets the key of an endpoint's secret in the secret storage
+ * @param endpoint Endpoint from the webhooks setting, the webhookUrl
+ * endpoint if not given
+ */
+export function getSecretStorageKey(endpoint?: WebhookEndpoint): string {
+  return !endpoint || endpoint.legacy
+    ? SECRET_KEY
+    : `${SECRET_KEY}:${getEndpointKey(endpoint)}`;
+}
+
+/**
+ * Returns whether an endpoint receives events of a project
+ */
+function acceptsProject(endpoint: WebhookEndpoint, project: unknown): boolean {
+  return (
+    !endpoint.projects?.length ||
+    (typeof project === "string" && endpoint.projects.includes(project))
+  );
+}
+
+/**
+ * Gets the event data describing a session
+ * @param session Running or ended session
+ */
+export function getSessionEventData(
+  session: TimeSession,
+): Record<string, unknown> {
+  return {
+    sessionId: session.id,
+    fileName: session.fileName,
+    filePath: session.filePath,
+    project: session.project,
+    startTime: session.startTime.toISOString(),
+    endTime: session.endTime?.toISOString(),
+    duration: session.duration,
+    category: session.category,
+    notes: session.notes,
+  };
+}
+
+/**
+ * Gets the data of a day summary event: the active time of the day in
+ * total and per project and category
+ * @param day Day key of the summarized day
+ * @param sessions Sessions of the day
+ */
+export function getDaySummaryData(
+  day: string,
+  sessions: TimeSession[],
+): Record<string, unknown> {
+  const focused = sessions.filter(isFocusedSession);
+  const sumBy = (key: (session: TimeSession) => string) => {
+    const totals = new Map<string, number>();
+    for (const session of focused) {
+      totals.set(
+        key(session),
+        (totals.get(key(session)) ?? 0) + session.duration,
+      );
+    }
+    return [...totals].sort((a, b) => b[1] - a[1]);
+  };
+
+  return {
+    date: day,
+    duration: focused.reduce((total, session) => total + session.duration, 0),
+    sessionCount: sessions.length,
+    projects: sumBy((session) => session.project).map(
+      ([project, duration]) => ({ project, duration }),
+    ),
+    categories: sumBy((session) => session.category || "Uncategorized").map(
+      ([category, duration]) => ({ category, duration }),
+    ),
+  };
+}
+
+/**
+ * Posts a webhook payload to an endpoint
+ * @param url Endpoint to post to
+ * @param headers Request headers, including the signature
+ * @param payload JSON body
+ * @throws If the endpoint can't be reached or doesn't answer with a 2xx status
+ */
+export async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  payload: string,
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body: payload,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Webhook failed with status ${response.status}: ${await response.text()}`,
+    );
+  }
+}
 
 /**
  * Service for sending webhook notifications using the Standard Webhooks specification
+ * Events are queued in a persistent outbox in the storage directory and
+ * retried until the endpoint accepts them
  * @see https://www.standardwebhooks.com/
  */
-export class WebhookService {
-  private webhookUrl: string | undefined;
-  private webhookSecret: string | undefined;
+export class WebhookService implements vscode.Disposable {
+  private endpoints: WebhookEndpoint[] = [];
+  private invalidSecrets = new Set<string>(); // secret storage keys of secrets that can't sign
+  private readonly outbox: WebhookOutbox;
+  private readonly configurationListener: vscode.Disposable;
 
-  constructor() {
+  /**
+   * Creates the webhook service
+   * @param secrets Secret storage of the extension, holding the endpoints'
+   * secrets
+   */
+  constructor(private readonly secrets: vscode.SecretStorage) {
     this.loadConfiguration();
+    this.outbox = new WebhookOutbox(
+      path.join(DatabaseService.getBaseDirectory(), "webhook-outbox"),
+      (delivery) => this.deliver(delivery),
+    );
 
     // Listen for configuration changes
-    vscode.workspace.onDidChangeConfiguration((e) => {
-      if (
-        e.affectsConfiguration("timeTracking.webhookUrl") ||
-        e.affectsConfiguration("timeTracking.webhookSecret")
-      ) {
-        this.loadConfiguration();
-      }
-    });
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (
+          e.affectsConfiguration("timeTracking.webhooks") ||
+          e.affectsConfiguration("timeTracking.webhookUrl") ||
+          e.affectsConfiguration("timeTracking.webhookSecret") ||
+          e.affectsConfiguration("timeTracking.webhookEvents")
+        ) {
+          this.loadConfiguration();
+          this.checkSecrets();
+        }
+      },
+    );
   }
 
   /**
    * Load webhook configuration from VS Code settings
+   * The legacy webhookUrl and webhookSecret settings are added as one more
+   * endpoint; webhookEvents is the event filter of endpoints without one
+   * Endpoints whose template uses unknown formatters are left out with a
+   * warning, rather than sending payloads with unformatted values
    */
   private loadConfiguration(): void {
     const config = vscode.workspace.getConfiguration("timeTracking");
-    this.webhookUrl = config.get<string>("webhookUrl");
-    this.webhookSecret = config.get<string>("webhookSecret");
+    const events = config.get<WebhookEventType[]>("webhookEvents", [
+      "time.session.completed",
+    ]);
+
+    this.endpoints = config
+      .get<Partial<WebhookEndpoint>[]>("webhooks", [])
+      .filter((endpoint) => !!endpoint?.url)
+      .filter((endpoint) => {
+        const unknown = getUnknownFormatters(endpoint.template);
+        if (unknown.length > 0) {
+          vscode.window.showWarningMessage(
+            `Time Tracking: Webhook endpoint ${endpoint.name || endpoint.url} is not used, its template has unknown formatters: ${unknown.join(", ")}`,
+          );
+        }
+        return unknown.length === 0;
+      })
+      .map((endpoint) => ({
+        ...endpoint,
+        url: endpoint.url as string,
+        events: endpoint.events ?? events,
+      }));
+
+    const webhookUrl = config.get<string>("webhookUrl");
+    if (webhookUrl) {
+      this.endpoints.push({
+        url: webhookUrl,
+        legacy: true,
+        secret: config.get<string>("webhookSecret"),
+        events,
+      });
+    }
   }
 
   /**
-   * Sends a webhook event for a completed time tracking session
-   * @param session The time tracking session to send
+   * Gets the configured endpoints
    */
-  public async sendSessionEvent(session: TimeSession): Promise<void> {
-    // Only send webhook if URL is configured
-    if (!this.webhookUrl) {
-      return;
+  public getEndpoints(): WebhookEndpoint[] {
+    return this.endpoints;
+  }
+
+  /**
+   * Stores the secret of an endpoint in the secret storage
+   * @param endpoint Endpoint from the webhooks setting, the webhookUrl
+   * endpoint if not given
+   * @param secret Secrets separated by spaces, or undefined to delete it
+   */
+  public async setSecret(
+    endpoint: WebhookEndpoint | undefined,
+    secret: string | undefined,
+  ): Promise<void> {
+    const key = getSecretStorageKey(endpoint);
+    if (secret?.trim()) {
+      await this.secrets.store(key, secret.trim());
+    } else {
+      await this.secrets.delete(key);
     }
 
-    try {
-      const eventId = crypto.randomUUID();
-      const timestamp = new Date().toISOString();
+    // A secret still in the settings is used instead of the stored one
+    const configured = this.endpoints.find(
+      (candidate) => getSecretStorageKey(candidate) === key,
+    );
+    if (validateWebhookSecrets(configured?.secret ?? secret)) {
+      this.invalidSecrets.add(key);
+    } else {
+      this.invalidSecrets.delete(key);
+    }
+  }
 
-      const payload = {
-        id: eventId,
-        timestamp,
-        type: "time.session.completed",
-        data: {
-          sessionId: session.id,
-          fileName: session.fileName,
-          filePath: session.filePath,
-          project: session.project,
-          startTime: session.startTime.toISOString(),
-          endTime: session.endTime?.toISOString(),
-          duration: session.duration,
-          category: session.category,
-          notes: session.notes,
-        },
-      };
-
-      const payloadString = JSON.stringify(payload);
-
-      // Create headers according to Standard Webhooks spec
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        "User-Agent": "vscode-time-tracking/standardwebhooks",
-        "Webhook-Id": eventId,
-        "Webhook-Timestamp": timestamp,
-      };
-
-      // Sign the payload if a secret is provided
-      if (this.webhookSecret) {
-        const signature = this.generateSignature(
-          payloadString,
-          this.webhookSecret,
-        );
-        headers["Webhook-Signature"] = `v1,${signature}`;
+  /**
+   * Gets the secret of an endpoint; a secret still in the settings, of the
+   * workspace or one that couldn't be moved, wins over the secret storage
+   */
+  private async getSecret(
+    endpoint: WebhookEndpoint,
+  ): Promise<string | undefined> {
+    return (
+      endpoint.secret ?? (await this.secrets.get(getSecretStorageKey(endpoint)))
+    );
+  }
+
+  /**
+   * Checks the secrets of all endpoints; endpoints whose secret can't sign
+   * events, e.g. one moved from the settings in an older format, get no
+   * events until it is set again, and a warning points to the command
+   * Called on activation after the migration and when the settings change
+   */
+  public async checkSecrets(): Promise<void> {
+    const invalid: WebhookEndpoint[] = [];
+    for (const endpoint of this.endpoints) {
+      if (validateWebhookSecrets(await this.getSecret(endpoint))) {
+        invalid.push(endpoint);
       }
+    }
 
-      // Send the webhook
-      const response = await fetch(this.webhookUrl, {
-        method: "POST",
-        headers,
-        body: payloadString,
-      });
+    this.invalidSecrets = new Set(invalid.map(getSecretStorageKey));
+    if (invalid.length > 0) {
+      vscode.window
+        .showWarningMessage(
+          `Time Tracking: Webhook endpoint ${invalid.map((endpoint) => endpoint.name || endpoint.url).join(", ")} is not used, its secret is not a Standard Webhooks secret (whsec_ followed by a base64 key).`,
+          "Set Webhook Secret",
+        )
+        .then((selection) => {
+          if (selection) {
+            vscode.commands.executeCommand("time-tracking.setWebhookSecret");
+          }
+        });
+    }
+  }
+
+  /**
+   * Returns whether events are sent to an endpoint, which needs a secret
+   * that can sign them
+   */
+  private isUsable(endpoint: WebhookEndpoint): boolean {
+    return !this.invalidSecrets.has(getSecretStorageKey(endpoint));
+  }
+
+  /**
+   * Moves secrets from the user settings of webhookSecret and webhooks to the
+   * secret storage and removes them from the settings, so they are not synced
+   * with the settings
+   * The secret storage is shared by all workspaces, so secrets in workspace
+   * and workspace folder settings are left there, where they take precedence,
+   * and a warning asks to move them. Endpoints without a name keep their
+   * secret under their URL, which is lost when the URL changes, so a warning
+   * asks to name them.
+   * @returns Whether any secret was moved
+   */
+  public async migrateSecrets(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration("timeTracking");
+    const secret = config.inspect<string>("webhookSecret")?.globalValue;
+    const webhooks =
+      config.inspect<Partial<WebhookEndpoint>[]>("webhooks")?.globalValue;
+
+    let migrated = false;
+    const unnamed: string[] = [];
+    if (secret) {
+      await this.setSecret(undefined, secret);
+      await config.update(
+        "webhookSecret",
+        undefined,
+        vscode.ConfigurationTarget.Global,
+      );
+      migrated = true;
+    }
+
+    if (webhooks?.some((endpoint) => endpoint?.secret)) {
+      for (const endpoint of webhooks) {
+        if (endpoint?.url && endpoint.secret) {
+          await this.setSecret(endpoint as WebhookEndpoint, endpoint.secret);
+          if (!endpoint.name) {
+            unnamed.push(endpoint.url);
+          }
+        }
+      }
+      await config.update(
+        "webhooks",
+        webhooks.map(({ secret, ...endpoint }) => endpoint),
+        vscode.ConfigurationTarget.Global,
+      );
+      migrated = true;
+    }
+
+    if (unnamed.length > 0) {
+      vscode.window.showWarningMessage(
+        `Time Tracking: The secrets of webhook endpoints without a name are stored under their URL and must be set again if the URL changes. Give these endpoints a name in timeTracking.webhooks: ${[...new Set(unnamed)].join(", ")}`,
+      );
+    }
 
-      if (!response.ok) {
-        throw new Error(
-          `Webhook failed with status ${response.status}: ${await response.text()}`,
+    // Secrets of the workspace and its folders would replace the secrets
+    // other workspaces use; a single-folder workspace's settings are those
+    // of its folder
+    const scopes: {
+      label: string;
+      config: vscode.WorkspaceConfiguration;
+      value: "workspaceValue" | "workspaceFolderValue";
+    }[] = [
+      { label: "workspace", config, value: "workspaceValue" },
+      ...(vscode.workspace.workspaceFile
+        ? (vscode.workspace.workspaceFolders ?? [])
+        : []
+      ).map((folder) => ({
+        label: `folder ${folder.name}`,
+        config: vscode.workspace.getConfiguration("timeTracking", folder.uri),
+        value: "workspaceFolderValue" as const,
+      })),
+    ];
+    const withSecrets = scopes.filter(
+      ({ config: scopeConfig, value }) =>
+        !!scopeConfig.inspect<string>("webhookSecret")?.[value] ||
+        !!scopeConfig
+          .inspect<Partial<WebhookEndpoint>[]>("webhooks")
+          ?.[value]?.some((endpoint) => endpoint?.secret),
+    );
+    if (withSecrets.length > 0) {
+      vscode.window.showWarningMessage(
+        `Time Tracking: Webhook secrets in the settings of the ${withSecrets.map(({ label }) => label).join(", ")} are used as they are, as the secret storage is shared by all workspaces. Remove them if the settings are committed and use "Set Webhook Secret" instead.`,
+      );
+    }
+    return migrated;
+  }
+
+  /**
+   * Returns whether events of a type are sent to any endpoint
+   */
+  public isEventEnabled(type: WebhookEventType): boolean {
+    return this.endpoints.some(
+      (endpoint) => endpoint.events.includes(type) && this.isUsable(endpoint),
+    );
+  }
+
+  /**
+   * Gets the outbox of events waiting to be delivered
+   */
+  public getOutbox(): WebhookOutbox {
+    return this.outbox;
+  }
+
+  /**
+   * Sends the events that were queued while VS Code was closed or the
+   * endpoint was unreachable
+   */
+  public deliverQueuedEvents(): Promise<void> {
+    return this.outbox.flush();
+  }
+
+  /**
+   * Sends a webhook event to the endpoints that receive its type and project
+   * @param type Event type
+   * @param data Event data
+   */
+  public sendEvent(
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    return this.queueEvents(
+      type,
+      this.endpoints
+        .filter((endpoint) => acceptsProject(endpoint, data.project))
+        .map((endpoint) => [endpoint, data]),
+    );
+  }
+
+  /**
+   * Sends a webhook event about a time tracking session
+   * @param session The time tracking session to send
+   * @param type Event type, a completed session by default
+   */
+  public sendSessionEvent(
+    session: TimeSession,
+    type: WebhookEventType = "time.session.completed",
+  ): Promise<void> {
+    return this.sendEvent(type, getSessionEventData(session));
+  }
+
+  /**
+   * Sends the summary of a day; endpoints with a project filter get the
+   * totals of their projects only
+   * @param day Day key of the summarized day
+   * @param sessions Sessions of the day
+   */
+  public sendDaySummary(day: string, sessions: TimeSession[]): Promise<void> {
+    return this.queueEvents(
+      "time.day.summary",
+      this.endpoints.map((endpoint) => [
+        endpoint,
+        getDaySummaryData(
+          day,
+          sessions.filter((session) =>
+            acceptsProject(endpoint, session.project),
+          ),
+        ),
+      ]),
+    );
+  }
+
+  /**
+   * Queues an event for each endpoint that receives its type, rendering the
+   * endpoint's payload template, and sends them
+   * @param type Event type
+   * @param targets Endpoints with the event data to send to them
+   */
+  private async queueEvents(
+    type: WebhookEventType,
+    targets: [WebhookEndpoint, Record<string, unknown>][],
+  ): Promise<void> {
+    const timestamp = new Date().toISOString();
+    let queued = false;
+
+    for (const [endpoint, data] of targets) {
+      if (!endpoint.events.includes(type) || !this.isUsable(endpoint)) {
+        continue;
+      }
+
+      try {
+        const eventId = crypto.randomUUID();
+        const event = { id: eventId, timestamp, type, data };
+        const payload =
+          endpoint.template === undefined
+            ? event
+            : renderWebhookTemplate(endpoint.template, event);
+
+        // Queue the event first so it is not lost if sending fails
+        this.outbox.enqueue(
+          eventId,
+          endpoint.url,
+          JSON.stringify(payload),
+          getEndpointKey(endpoint),
+          type,
         );
+        queued = true;
+      } catch (error) {
+        console.error("Error queueing webhook:", error);
+      }
+    }
+
+    try {
+      if (queued) {
+        await this.outbox.flush();
       }
     } catch (error) {
       console.error("Error sending webhook:", error);
@@ -102,12 +539,93 @@ export class WebhookService {
   }
 
   /**
-   * Generate HMAC signature for webhook payload using SHA-256
-   * @param payload The payload to sign
-   * @param secret The webhook secret
-   * @returns Hex-encoded signature
+   * Claims sending the summary of a day, so only one window sends it
+   * @param day Day key of the summarized day
+   * @returns false if day summaries are disabled or the summary of this day
+   * or a later one was sent already
+   */
+  public claimDaySummary(day: string): boolean {
+    if (!this.isEventEnabled("time.day.summary")) {
+      return false;
+    }
+
+    const directory = this.outbox.getDirectory();
+    const filePath = path.join(directory, DAY_SUMMARY_FILE);
+    try {
+      fs.mkdirSync(directory, { recursive: true });
+      return withFileLock(filePath, () => {
+        const lastDay = fs.existsSync(filePath)
+          ? fs.readFileSync(filePath, "utf8").trim()
+          : "";
+        if (lastDay >= day) {
+          return false;
+        }
+        fs.writeFileSync(filePath, day, "utf8");
+        return true;
+      });
+    } catch (error) {
+      console.error("Error claiming day summary:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Sends a queued event to its endpoint, signed with the endpoint's current
+   * secret and with its current custom headers
+   * @throws If the endpoint is no longer configured or did not accept the event
+   */
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    // Deliveries queued before endpoints had names are keyed by their URL
+    const key = delivery.endpoint ?? delivery.url;
+    const endpoint = this.endpoints.find(
+      (candidate) => getEndpointKey(candidate) === key,
+    );
+    if (!endpoint) {
+      throw new Error(`Webhook endpoint ${key} is no longer configured`);
+    }
+
+    // Create headers according to Standard Webhooks spec; custom headers
+    // can't replace the Webhook-* headers
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "vscode-time-tracking/standardwebhooks",
+      ...endpoint.headers,
+      "Webhook-Id": delivery.id,
+      "Webhook-Timestamp": timestamp.toString(),
+    };
+
+    // Sign the payload with each secret if secrets are provided
+    const secret = await this.getSecret(endpoint);
+    if (validateWebhookSecrets(secret)) {
+      throw new Error(
+        `The secret of webhook endpoint ${key} is invalid, set it again with "Set Webhook Secret"`,
+      );
+    }
+    const secrets = parseWebhookSecrets(secret);
+    if (secrets.length > 0) {
+      headers["Webhook-Signature"] = signWebhook(
+        delivery.id,
+        timestamp,
+        delivery.payload,
+        secrets,
+      );
+    }
+
+    try {
+      await postWebhook(endpoint.url, headers, delivery.payload);
+    } catch (error) {
+      console.error("Error sending webhook:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops retrying queued events and listening for configuration changes;
+   * queued events are sent on the next activation
    */
-  private generateSignature(payload: string, secret: string): string {
-    return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+  public dispose(): void {
+    this.outbox.dispose();
+    this.configurationListener.dispose();
   }
 }
@@ -0,0 +1,77 @@
+import * as crypto from "node:crypto";
+
+// Prefix of Standard Webhooks secrets, followed by the base64 encoded key
+const SECRET_PREFIX = "whsec_";
+
+/**
+ * Splits a secret setting into its secrets; several secrets separated by
+ * spaces are used while rotating, so receivers can verify with either
+ * @param secrets Secret setting, may be empty
+ */
+export function parseWebhookSecrets(secrets: string | undefined): string[] {
+  return (secrets ?? "").split(/\s+/).filter((secret) => secret.length > 0);
+}
+
+/**
+ * Gets the signing key of a secret: the base64 decoded part after the
+ * optional `whsec_` prefix
+ * @throws If the secret is not valid base64
+ */
+export function decodeWebhookSecret(secret: string): Buffer {
+  const encoded = secret.startsWith(SECRET_PREFIX)
+    ? secret.slice(SECRET_PREFIX.length)
+    : secret;
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(encoded) || encoded.length % 4 === 1) {
+    throw new Error(
+      "Webhook secret must be base64 encoded, optionally prefixed with whsec_",
+    );
+  }
+  return Buffer.from(encoded, "base64");
+}
+
+/**
+ * Checks that each of the space-separated secrets is a valid Standard
+ * Webhooks secret
+ * @param secrets Secret setting, may be empty
+ * @returns An error message, or undefined if the secrets are valid
+ */
+export function validateWebhookSecrets(
+  secrets: string | undefined,
+): string | undefined {
+  try {
+    for (const secret of parseWebhookSecrets(secrets)) {
+      decodeWebhookSecret(secret);
+    }
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Signs a webhook message according to the Standard Webhooks specification:
+ * a base64 HMAC SHA-256 of `${id}.${timestamp}.${payload}` per secret
+ * @param id Message id, sent as Webhook-Id
+ * @param timestamp Unix time in seconds, sent as Webhook-Timestamp
+ * @param payload Body of the request
+ * @param secrets Secrets to sign with
+ * @returns Value of the Webhook-Signature header, one `v1,` signature per
+ * secret separated by spaces
+ * @see https://github.com/standard-webhooks/standard-webhooks/blob/main/spec/standard-webhooks.md
+ */
+export function signWebhook(
+  id: string,
+  timestamp: number,
+  payload: string,
+  secrets: string[],
+): string {
+  return secrets
+    .map((secret) => {
+      const signature = crypto
+        .createHmac("sha256", decodeWebhookSecret(secret))
+        .update(`${id}.${timestamp}.${payload}`)
+        .digest("base64");
+      return `v1,${signature}`;
+    })
+    .join(" ");
+}
@@ -0,0 +1,122 @@
+import { formatDuration, formatDurationShort } from "../utils/timeUtils";
+
+// A placeholder such as {{data.project}} or {{data.duration | minutes}}
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+/**
+ * Formatters that can be applied to a placeholder value with `| name`,
+ * mostly to convert durations in milliseconds
+ */
+const FORMATTERS: Record<string, (value: unknown) => unknown> = {
+  seconds: (value) => Math.round(Number(value) / 1000),
+  minutes: (value) => Math.round(Number(value) / 60000),
+  hours: (value) => Math.round(Number(value) / 36000) / 100,
+  duration: (value) => formatDurationShort(Number(value)),
+  clock: (value) => formatDuration(Number(value)),
+  json: (value) => JSON.stringify(value),
+};
+
+/**
+ * Gets the value at a dotted path of an object, e.g. `data.project`
+ */
+function getValue(source: unknown, path: string): unknown {
+  let value = source;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Gets the value of a placeholder, with its formatter applied
+ */
+function resolvePlaceholder(
+  event: unknown,
+  path: string,
+  formatter: string | undefined,
+): unknown {
+  const value = getValue(event, path);
+  const format =
+    formatter && Object.hasOwn(FORMATTERS, formatter)
+      ? FORMATTERS[formatter]
+      : undefined;
+  return format && value !== undefined ? format(value) : value;
+}
+
+/**
+ * Replaces the placeholders in a string of a template
+ * A string that is a single placeholder is replaced with the value itself,
+ * so numbers, lists and objects keep their type; otherwise values are
+ * inserted as text
+ */
+function renderString(template: string, event: unknown): unknown {
+  const whole = new RegExp(`^${PLACEHOLDER.source}$`).exec(template);
+  if (whole) {
+    return resolvePlaceholder(event, whole[1], whole[2]);
+  }
+
+  return template.replace(PLACEHOLDER, (_, path: string, formatter) => {
+    const value = resolvePlaceholder(event, path, formatter);
+    if (value === undefined || value === null) {
+      return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Gets the formatters a template uses that don't exist, e.g. misspelled ones
+ * @param template Payload template from the endpoint settings
+ * @returns The unknown formatter names, each once
+ */
+export function getUnknownFormatters(template: unknown): string[] {
+  if (typeof template === "string") {
+    return [
+      ...new Set(
+        [...template.matchAll(PLACEHOLDER)]
+          .map((match) => match[2])
+          .filter(
+            (formatter) => formatter && !Object.hasOwn(FORMATTERS, formatter),
+          ),
+      ),
+    ];
+  }
+  if (template !== null && typeof template === "object") {
+    return [...new Set(Object.values(template).flatMap(getUnknownFormatters))];
+  }
+  return [];
+}
+
+/**
+ * Renders a payload template for an event
+ *
+ * The template is any JSON value; placeholders like `{{data.project}}` or
+ * `{{data.duration | minutes}}` in its strings are replaced with the values
+ * of the event, which has `id`, `timestamp`, `type` and `data`.
+ * @param template Payload template from the endpoint settings
+ * @param event Standard Webhooks event to render
+ * @returns The rendered JSON value
+ */
+export function renderWebhookTemplate(
+  template: unknown,
+  event: unknown,
+): unknown {
+  if (typeof template === "string") {
+    return renderString(template, event);
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderWebhookTemplate(item, event));
+  }
+  if (template !== null && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [
+        key,
+        renderWebhookTemplate(value, event),
+      ]),
+    );
+  }
+  return template;
+}
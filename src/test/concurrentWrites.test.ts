@@ -0,0 +1,219 @@
+import * as assert from "node:assert";
+import * as childProcess from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { TimeSession } from "../models/timeTracker";
+import { CsvStorageBackend } from "../services/storage/csvStorageBackend";
+import { JsonlStorageBackend } from "../services/storage/jsonlStorageBackend";
+import { FileLockTimeoutError, withFileLock } from "../utils/fileLock";
+
+/**
+ * Runs the lock worker fixture in a separate process
+ * @returns The id of the finished process
+ */
+function runLockWorker(filePath: string, iterations: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const worker = childProcess.fork(
+      path.join(__dirname, "fixtures", "lockWorker.js"),
+      [filePath, String(iterations)],
+    );
+    worker.on("error", reject);
+    worker.on("exit", (code) => {
+      if (code === 0) {
+        resolve(worker.pid ?? 0);
+      } else {
+        reject(new Error(`Lock worker exited with code ${code}`));
+      }
+    });
+  });
+}
+
+function createSession(id: string, duration: number): TimeSession {
+  const startTime = new Date(2025, 4, 12, 10, 0, 0);
+  return {
+    id,
+    fileName: "index.ts",
+    filePath: "/project/index.ts",
+    project: "project",
+    startTime,
+    endTime: new Date(startTime.getTime() + duration),
+    duration,
+  };
+}
+
+suite("Concurrent Writes Test Suite", () => {
+  let directory: string;
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "time-tracking-test-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("Lock is released after the action", () => {
+    const filePath = path.join(directory, "data.csv");
+
+    const result = withFileLock(filePath, () => {
+      assert.ok(fs.existsSync(`${filePath}.lock`));
+      return 42;
+    });
+
+    assert.strictEqual(result, 42);
+    assert.ok(!fs.existsSync(`${filePath}.lock`));
+  });
+
+  test("Lock is released when the action throws", () => {
+    const filePath = path.join(directory, "data.csv");
+
+    assert.throws(() =>
+      withFileLock(filePath, () => {
+        throw new Error("write failed");
+      }),
+    );
+    assert.ok(!fs.existsSync(`${filePath}.lock`));
+  });
+
+  test("Lock held by a live process times out", () => {
+    const filePath = path.join(directory, "data.csv");
+    fs.writeFileSync(
+      `${filePath}.lock`,
+      JSON.stringify({ pid: process.pid, createdAt: Date.now(), token: "x" }),
+    );
+
+    assert.throws(
+      () => withFileLock(filePath, () => undefined, { timeoutMs: 50 }),
+      FileLockTimeoutError,
+    );
+  });
+
+  test("Stale lock is taken over", () => {
+    const filePath = path.join(directory, "data.csv");
+    fs.writeFileSync(
+      `${filePath}.lock`,
+      JSON.stringify({
+        pid: process.pid,
+        createdAt: Date.now() - 10 * 60 * 1000,
+        token: "x",
+      }),
+    );
+
+    assert.strictEqual(
+      withFileLock(filePath, () => "acquired", { timeoutMs: 50 }),
+      "acquired",
+    );
+  });
+
+  test("Long-held lock of a live process is not taken over", () => {
+    const filePath = path.join(directory, "data.csv");
+    fs.writeFileSync(
+      `${filePath}.lock`,
+      JSON.stringify({
+        pid: process.pid,
+        createdAt: Date.now() - 60000,
+        token: "x",
+      }),
+    );
+
+    assert.throws(
+      () => withFileLock(filePath, () => undefined, { timeoutMs: 50 }),
+      FileLockTimeoutError,
+    );
+  });
+
+  test("Lock of a crashed process is taken over", async () => {
+    const filePath = path.join(directory, "data.json");
+    fs.writeFileSync(filePath, "[]");
+    const deadPid = await runLockWorker(filePath, 0);
+    fs.writeFileSync(
+      `${filePath}.lock`,
+      JSON.stringify({ pid: deadPid, createdAt: Date.now(), token: "x" }),
+    );
+
+    assert.strictEqual(
+      withFileLock(filePath, () => "acquired", { timeoutMs: 50 }),
+      "acquired",
+    );
+  });
+
+  test("Concurrent processes don't lose each other's writes", async function () {
+    this.timeout(30000);
+    const filePath = path.join(directory, "data.json");
+    fs.writeFileSync(filePath, "[]");
+
+    await Promise.all([
+      runLockWorker(filePath, 50),
+      runLockWorker(filePath, 50),
+      runLockWorker(filePath, 50),
+      runLockWorker(filePath, 50),
+    ]);
+
+    const entries = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    assert.strictEqual(entries.length, 200);
+    assert.ok(!fs.existsSync(`${filePath}.lock`));
+  });
+
+  test("Two windows writing the same CSV day keep each other's sessions", () => {
+    const firstWindow = new CsvStorageBackend(directory);
+    const secondWindow = new CsvStorageBackend(directory);
+
+    // Enough replacement rows to make both windows compact the day file
+    for (let i = 1; i <= 30; i++) {
+      firstWindow.saveSession(createSession("first", i));
+      secondWindow.saveSession(createSession("second", i));
+      firstWindow.loadSessions();
+      secondWindow.loadSessions();
+    }
+    firstWindow.close();
+    secondWindow.close();
+
+    const sessions = new CsvStorageBackend(directory).loadSessions();
+    assert.deepStrictEqual(
+      sessions.map((session) => [session.id, session.duration]).sort(),
+      [
+        ["first", 30],
+        ["second", 30],
+      ],
+    );
+  });
+
+  test("A JSONL record saved after a torn line starts on its own line", () => {
+    const backend = new JsonlStorageBackend(directory);
+    backend.saveSession(createSession("first", 1000));
+    const [filePath] = fs
+      .readdirSync(directory)
+      .map((file) => path.join(directory, file));
+    // A write interrupted by a crash
+    fs.appendFileSync(filePath, '{"id":"torn","fileName":"ind');
+
+    backend.saveSession(createSession("second", 2000));
+
+    assert.deepStrictEqual(
+      new JsonlStorageBackend(directory)
+        .loadSessions()
+        .map((session) => session.id)
+        .sort(),
+      ["first", "second"],
+    );
+  });
+
+  test("JSONL day files with many replacement records are compacted", () => {
+    const backend = new JsonlStorageBackend(directory);
+    for (let i = 1; i <= 25; i++) {
+      backend.saveSession(createSession("session", i));
+    }
+    // Reading the file finds the replacement records
+    backend.loadSessions();
+    backend.close();
+
+    const [file] = fs.readdirSync(directory);
+    const lines = fs
+      .readFileSync(path.join(directory, file), "utf8")
+      .split("\n")
+      .filter((line) => line !== "");
+    assert.strictEqual(lines.length, 1);
+    assert.strictEqual(JSON.parse(lines[0]).duration, 25);
+  });
+});
@@ -0,0 +1,232 @@
+import * as assert from "node:assert";
+import {
+  type DateRange,
+  createCustomRange,
+  findMatchingPreset,
+  formatDateRange,
+  getDateRangeDates,
+  getDateRangeLength,
+  getPresetRange,
+  refreshDateRange,
+  shiftDateRange,
+} from "../utils/dateRange";
+import { setDayTimeZone } from "../utils/timeUtils";
+
+/**
+ * Gets the first and last day of a range
+ */
+function days(range: DateRange): [string, string] {
+  return [range.start, range.end];
+}
+
+suite("Date Range Test Suite", () => {
+  teardown(() => {
+    setDayTimeZone(undefined);
+  });
+
+  test("Rolling presets end today", () => {
+    assert.deepStrictEqual(getPresetRange("today", "2024-03-15"), {
+      start: "2024-03-15",
+      end: "2024-03-15",
+      preset: "today",
+    });
+    assert.deepStrictEqual(days(getPresetRange("last7Days", "2024-03-03")), [
+      "2024-02-26",
+      "2024-03-03",
+    ]);
+    assert.deepStrictEqual(days(getPresetRange("last14Days", "2024-01-05")), [
+      "2023-12-23",
+      "2024-01-05",
+    ]);
+    assert.deepStrictEqual(days(getPresetRange("last30Days", "2024-03-15")), [
+      "2024-02-15",
+      "2024-03-15",
+    ]);
+  });
+
+  test("Weeks start on Monday", () => {
+    for (const today of ["2024-03-11", "2024-03-13", "2024-03-17"]) {
+      assert.deepStrictEqual(days(getPresetRange("thisWeek", today)), [
+        "2024-03-11",
+        "2024-03-17",
+      ]);
+    }
+    assert.deepStrictEqual(days(getPresetRange("thisWeek", "2025-01-01")), [
+      "2024-12-30",
+      "2025-01-05",
+    ]);
+  });
+
+  test("Last month ends on the last day of the month", () => {
+    assert.deepStrictEqual(days(getPresetRange("lastMonth", "2024-03-31")), [
+      "2024-02-01",
+      "2024-02-29",
+    ]);
+    assert.deepStrictEqual(days(getPresetRange("lastMonth", "2023-03-10")), [
+      "2023-02-01",
+      "2023-02-28",
+    ]);
+    assert.deepStrictEqual(days(getPresetRange("lastMonth", "2024-01-15")), [
+      "2023-12-01",
+      "2023-12-31",
+    ]);
+  });
+
+  test("This quarter covers its three months", () => {
+    assert.deepStrictEqual(days(getPresetRange("thisQuarter", "2024-05-20")), [
+      "2024-04-01",
+      "2024-06-30",
+    ]);
+    assert.deepStrictEqual(days(getPresetRange("thisQuarter", "2024-12-31")), [
+      "2024-10-01",
+      "2024-12-31",
+    ]);
+  });
+
+  test("Year to date starts on January 1st", () => {
+    assert.deepStrictEqual(days(getPresetRange("yearToDate", "2024-03-15")), [
+      "2024-01-01",
+      "2024-03-15",
+    ]);
+  });
+
+  test("Custom ranges are put in order", () => {
+    assert.deepStrictEqual(createCustomRange("2024-03-10", "2024-03-01"), {
+      start: "2024-03-01",
+      end: "2024-03-10",
+    });
+    assert.deepStrictEqual(createCustomRange("2024-03-01", "2024-03-01"), {
+      start: "2024-03-01",
+      end: "2024-03-01",
+    });
+  });
+
+  test("Preset ranges move along with the current day", () => {
+    const range = getPresetRange("last7Days", "2024-03-15");
+
+    assert.deepStrictEqual(days(refreshDateRange(range, "2024-03-16")), [
+      "2024-03-10",
+      "2024-03-16",
+    ]);
+
+    const custom = createCustomRange("2024-03-01", "2024-03-05");
+    assert.strictEqual(refreshDateRange(custom, "2024-03-16"), custom);
+  });
+
+  test("Ranges are matched to the preset they correspond to", () => {
+    assert.strictEqual(
+      findMatchingPreset(
+        createCustomRange("2024-03-09", "2024-03-15"),
+        "2024-03-15",
+      ),
+      "last7Days",
+    );
+    assert.strictEqual(
+      findMatchingPreset(
+        createCustomRange("2024-03-15", "2024-03-15"),
+        "2024-03-15",
+      ),
+      "today",
+    );
+    assert.strictEqual(
+      findMatchingPreset(
+        createCustomRange("2024-03-03", "2024-03-15"),
+        "2024-03-15",
+      ),
+      undefined,
+    );
+  });
+
+  test("Months move to the previous and next month", () => {
+    const february = getPresetRange("lastMonth", "2024-03-15");
+
+    assert.deepStrictEqual(shiftDateRange(february, -1), {
+      start: "2024-01-01",
+      end: "2024-01-31",
+    });
+    assert.deepStrictEqual(shiftDateRange(february, 1), {
+      start: "2024-03-01",
+      end: "2024-03-31",
+    });
+    assert.deepStrictEqual(
+      days(shiftDateRange(createCustomRange("2024-01-01", "2024-01-31"), 1)),
+      ["2024-02-01", "2024-02-29"],
+    );
+  });
+
+  test("Quarters move by three months across years", () => {
+    const quarter = getPresetRange("thisQuarter", "2024-11-05");
+
+    assert.deepStrictEqual(days(shiftDateRange(quarter, 1)), [
+      "2025-01-01",
+      "2025-03-31",
+    ]);
+    assert.deepStrictEqual(days(shiftDateRange(quarter, -1)), [
+      "2024-07-01",
+      "2024-09-30",
+    ]);
+  });
+
+  test("Year to date moves to whole years", () => {
+    const range = getPresetRange("yearToDate", "2024-03-15");
+
+    assert.deepStrictEqual(days(shiftDateRange(range, -1)), [
+      "2023-01-01",
+      "2023-12-31",
+    ]);
+  });
+
+  test("Other ranges move by their length", () => {
+    const week = getPresetRange("thisWeek", "2024-03-13");
+    assert.deepStrictEqual(shiftDateRange(week, -1), {
+      start: "2024-03-04",
+      end: "2024-03-10",
+    });
+
+    assert.deepStrictEqual(
+      days(shiftDateRange(createCustomRange("2024-02-27", "2024-03-02"), 1)),
+      ["2024-03-03", "2024-03-07"],
+    );
+    assert.deepStrictEqual(
+      days(shiftDateRange(createCustomRange("2024-03-01", "2024-03-10"), 1)),
+      ["2024-03-11", "2024-03-20"],
+    );
+  });
+
+  test("Range lengths count both ends", () => {
+    assert.strictEqual(
+      getDateRangeLength(createCustomRange("2024-03-15", "2024-03-15")),
+      1,
+    );
+    assert.strictEqual(
+      getDateRangeLength(getPresetRange("lastMonth", "2024-03-15")),
+      29,
+    );
+    assert.strictEqual(
+      getDateRangeLength(createCustomRange("2024-03-25", "2024-04-03")),
+      10,
+    );
+  });
+
+  test("Ranges are queried by the days of the time zone", () => {
+    setDayTimeZone("Europe/Berlin");
+
+    const { startDate, endDate } = getDateRangeDates(
+      createCustomRange("2024-03-30", "2024-03-31"),
+    );
+
+    assert.strictEqual(startDate.toISOString(), "2024-03-29T23:00:00.000Z");
+    assert.strictEqual(endDate.toISOString(), "2024-03-30T23:00:00.000Z");
+  });
+
+  test("Ranges are formatted as their days", () => {
+    assert.strictEqual(
+      formatDateRange(createCustomRange("2024-03-01", "2024-03-31")),
+      "2024-03-01 - 2024-03-31",
+    );
+    assert.strictEqual(
+      formatDateRange(createCustomRange("2024-03-15", "2024-03-15")),
+      "2024-03-15",
+    );
+  });
+});
@@ -0,0 +1,14 @@
+import * as fs from "node:fs";
+import { withFileLock } from "../../utils/fileLock";
+
+// Simulates another VS Code window doing read-modify-write cycles on a shared
+// file: node lockWorker.js <filePath> <iterations>
+const [filePath, iterations] = process.argv.slice(2);
+
+for (let i = 0; i < Number(iterations); i++) {
+  withFileLock(filePath, () => {
+    const entries: string[] = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    entries.push(`${process.pid}:${i}`);
+    fs.writeFileSync(filePath, JSON.stringify(entries), "utf8");
+  });
+}
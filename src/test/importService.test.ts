@@ -0,0 +1,280 @@
+import * as assert from "node:assert";
+import type { TimeSession } from "../models/timeTracker";
+import {
+  findOverlappingSessions,
+  getOverlapRatio,
+  removeDuplicateSessions,
+} from "../services/importService";
+import { ClockifyImporter } from "../services/importers/clockifyImporter";
+import { TogglImporter } from "../services/importers/togglImporter";
+import { WakaTimeImporter } from "../services/importers/wakatimeImporter";
+import { setDayTimeZone } from "../utils/timeUtils";
+
+const MINUTE = 60 * 1000;
+const DAY_START = Date.UTC(2024, 2, 15, 9, 0);
+
+/**
+ * Creates an ended session from minutes after 09:00
+ */
+function createSession(id: string, start: number, end: number): TimeSession {
+  return {
+    id,
+    fileName: "Imported",
+    filePath: "",
+    project: "project",
+    startTime: new Date(DAY_START + start * MINUTE),
+    endTime: new Date(DAY_START + end * MINUTE),
+    duration: (end - start) * MINUTE,
+  };
+}
+
+/**
+ * Gets the times of sessions as ISO strings
+ */
+function getTimes(sessions: TimeSession[]): [string, string | undefined][] {
+  return sessions.map((session) => [
+    session.startTime.toISOString(),
+    session.endTime?.toISOString(),
+  ]);
+}
+
+suite("Import Service Test Suite", () => {
+  setup(() => {
+    // Exported wall clock times are read in the day bucketing time zone
+    setDayTimeZone("UTC");
+  });
+
+  teardown(() => {
+    setDayTimeZone(undefined);
+  });
+
+  test("Exact duplicates and known ids are dropped", () => {
+    const existing = [
+      createSession("saved", 0, 30),
+      { ...createSession("saved-1", 60, 90), parentId: "toggl-1" },
+    ];
+    const imported = [
+      createSession("toggl-0", 0, 30),
+      createSession("toggl-1", 60, 90),
+      createSession("toggl-2", 120, 150),
+      createSession("toggl-3", 120, 150),
+    ];
+
+    assert.deepStrictEqual(
+      removeDuplicateSessions(imported, existing).map((session) => session.id),
+      ["toggl-2"],
+    );
+  });
+
+  test("Overlap is the share of the session covered by others", () => {
+    const session = createSession("imported", 0, 60);
+
+    assert.strictEqual(getOverlapRatio(session, []), 0);
+    assert.strictEqual(
+      getOverlapRatio(session, [createSession("a", 60, 90)]),
+      0,
+    );
+    assert.strictEqual(
+      getOverlapRatio(session, [createSession("a", -30, 15)]),
+      0.25,
+    );
+    assert.strictEqual(
+      getOverlapRatio(session, [createSession("a", -30, 90)]),
+      1,
+    );
+  });
+
+  test("Time covered by several sessions is counted once", () => {
+    const session = createSession("imported", 0, 60);
+
+    assert.strictEqual(
+      getOverlapRatio(session, [
+        createSession("a", 0, 30),
+        createSession("b", 10, 20),
+        createSession("c", 20, 40),
+        createSession("d", 50, 70),
+      ]),
+      50 / 60,
+    );
+  });
+
+  test("Sessions are flagged from the overlap threshold on", () => {
+    const existing = [createSession("saved", 0, 60)];
+    const mostly = createSession("mostly", 15, 75);
+    const barely = createSession("barely", 50, 110);
+    const separate = createSession("separate", 120, 180);
+
+    const overlaps = findOverlappingSessions(
+      [mostly, barely, separate],
+      existing,
+      0.5,
+    );
+
+    assert.deepStrictEqual([...overlaps.keys()], [mostly]);
+    assert.strictEqual(overlaps.get(mostly), 0.75);
+    assert.strictEqual(
+      findOverlappingSessions([mostly, barely], existing, 0.1).size,
+      2,
+    );
+    assert.strictEqual(
+      findOverlappingSessions([mostly, barely], existing, 0).size,
+      0,
+    );
+  });
+
+  test("Toggl entries are read with their task, tags and 24-hour times", () => {
+    const { sessions, invalidEntries } = new TogglImporter().parse(
+      [
+        "User,Project,Task,Description,Start date,Start time,End date,End time,Duration,Tags",
+        'Ann,api,Review,Fix login,2024-03-15,09:00:00,2024-03-15,10:30:00,01:30:00,"billable, meeting"',
+        "Ann,api,,Deploy,2024-03-15,23:30:00,2024-03-16,00:15:00,00:45:00,",
+        "Ann,api,,Broken,2024-03-15,25:00:00,2024-03-15,26:00:00,01:00:00,",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(getTimes(sessions), [
+      ["2024-03-15T09:00:00.000Z", "2024-03-15T10:30:00.000Z"],
+      ["2024-03-15T23:30:00.000Z", "2024-03-16T00:15:00.000Z"],
+    ]);
+    assert.deepStrictEqual(
+      sessions.map((session) => [
+        session.id,
+        session.project,
+        session.notes,
+        session.category,
+      ]),
+      [
+        [
+          `toggl-${Date.UTC(2024, 2, 15, 9)}`,
+          "api",
+          "Review: Fix login",
+          "Meeting",
+        ],
+        [`toggl-${Date.UTC(2024, 2, 15, 23, 30)}`, "api", "Deploy", undefined],
+      ],
+    );
+    assert.strictEqual(invalidEntries, 1);
+  });
+
+  test("Clockify dates are month first with 12-hour times by default", () => {
+    const { sessions } = new ClockifyImporter().parse(
+      [
+        "Project,Description,Start Date,Start Time,End Date,End Time,Duration (h)",
+        "api,Planning,03/04/2024,9:00 AM,03/04/2024,12:30 PM,3.50",
+        "api,Late fix,03/04/2024,11:45 PM,03/05/2024,12:15 AM,0.50",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(getTimes(sessions), [
+      ["2024-03-04T09:00:00.000Z", "2024-03-04T12:30:00.000Z"],
+      ["2024-03-04T23:45:00.000Z", "2024-03-05T00:15:00.000Z"],
+    ]);
+  });
+
+  test("Clockify dates are read day first if a date only makes sense so", () => {
+    const { sessions } = new ClockifyImporter().parse(
+      [
+        "Project,Description,Start Date,Start Time,End Date,End Time,Duration (h)",
+        "api,,03/04/2024,09:00,03/04/2024,10:00,1.00",
+        "api,,14/03/2024,13:00,14/03/2024,14:00,1.00",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(getTimes(sessions), [
+      ["2024-04-03T09:00:00.000Z", "2024-04-03T10:00:00.000Z"],
+      ["2024-03-14T13:00:00.000Z", "2024-03-14T14:00:00.000Z"],
+    ]);
+  });
+
+  test("Dotted Clockify dates are always day first", () => {
+    const { sessions, invalidEntries } = new ClockifyImporter().parse(
+      [
+        "Project,Description,Start Date,Start Time,End Date,End Time,Duration (h)",
+        "api,,04.03.2024,09:00,04.03.2024,10:00,1.00",
+        "api,,04.03.2024,13:00 PM,04.03.2024,14:00,1.00",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(getTimes(sessions), [
+      ["2024-03-04T09:00:00.000Z", "2024-03-04T10:00:00.000Z"],
+    ]);
+    assert.strictEqual(invalidEntries, 1);
+  });
+
+  test("WakaTime heartbeats on the same file are joined into sessions", () => {
+    const start = Date.UTC(2024, 2, 15, 9) / 1000;
+    const heartbeat = (minutes: number, entity: string) => ({
+      time: start + minutes * 60,
+      entity,
+      type: "file",
+      project: "api",
+      branch: "main",
+      category: "coding",
+    });
+
+    const { sessions, invalidEntries } = new WakaTimeImporter().parse(
+      JSON.stringify({
+        days: [
+          {
+            date: "2024-03-15",
+            heartbeats: [
+              heartbeat(0, "/api/src/a.ts"),
+              heartbeat(1, "/api/src/a.ts"),
+              heartbeat(2, "/api/src/a.ts"),
+              // A lone heartbeat before a break has no duration
+              heartbeat(5, "/api/src/b.ts"),
+              heartbeat(25, "/api/src/b.ts"),
+              heartbeat(26, "/api/src/b.ts"),
+              { entity: "/api/src/b.ts" },
+            ],
+          },
+        ],
+      }),
+    );
+
+    assert.deepStrictEqual(getTimes(sessions), [
+      ["2024-03-15T09:00:00.000Z", "2024-03-15T09:05:00.000Z"],
+      ["2024-03-15T09:25:00.000Z", "2024-03-15T09:26:00.000Z"],
+    ]);
+    assert.deepStrictEqual(
+      sessions.map((session) => [
+        session.fileName,
+        session.filePath,
+        session.branch,
+        session.category,
+      ]),
+      [
+        ["a.ts", "/api/src/a.ts", "main", "Coding"],
+        ["b.ts", "/api/src/b.ts", "main", "Coding"],
+      ],
+    );
+    assert.strictEqual(invalidEntries, 1);
+  });
+
+  test("WakaTime daily totals are placed one after another", () => {
+    const { sessions, invalidEntries } = new WakaTimeImporter().parse(
+      JSON.stringify({
+        days: [
+          {
+            date: "2024-03-15",
+            projects: [
+              { name: "api", grand_total: { total_seconds: 3600 } },
+              { name: "web", grand_total: { total_seconds: 1800 } },
+            ],
+          },
+          { date: "15.03.2024" },
+        ],
+      }),
+    );
+
+    assert.deepStrictEqual(getTimes(sessions), [
+      ["2024-03-15T00:00:00.000Z", "2024-03-15T01:00:00.000Z"],
+      ["2024-03-15T01:00:00.000Z", "2024-03-15T01:30:00.000Z"],
+    ]);
+    assert.deepStrictEqual(
+      sessions.map((session) => session.project),
+      ["api", "web"],
+    );
+    assert.strictEqual(invalidEntries, 1);
+  });
+});
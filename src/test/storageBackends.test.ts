@@ -0,0 +1,180 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { TimeSession } from "../models/timeTracker";
+import { createStorageBackend } from "../services/databaseService";
+import { CsvStorageBackend } from "../services/storage/csvStorageBackend";
+import { JsonlStorageBackend } from "../services/storage/jsonlStorageBackend";
+import { STORAGE_BACKEND_KINDS } from "../services/storage/storageBackend";
+import { splitSessionAtDayBoundaries } from "../utils/timeUtils";
+import nodeFs = require("node:fs");
+
+/**
+ * Creates an ended session starting at 10:00 local time
+ */
+function createSession(id: string, duration: number): TimeSession {
+  const startTime = new Date(2025, 4, 12, 10, 0, 0);
+  return {
+    id,
+    fileName: "index.ts",
+    filePath: "/project/index.ts",
+    project: "project",
+    startTime,
+    endTime: new Date(startTime.getTime() + duration),
+    duration,
+    notes: "Refactoring",
+    ticket: "PROJ-1",
+  };
+}
+
+/**
+ * Gets the only day file in a directory
+ */
+function getDayFile(directory: string): string {
+  const [file] = fs.readdirSync(directory);
+  return path.join(directory, file);
+}
+
+suite("Storage Backends Test Suite", () => {
+  let directory: string;
+
+  suiteSetup(() => {
+    // The SQLite backend loads the WASM binary from next to its module, where
+    // esbuild copies it for the bundle
+    fs.copyFileSync(
+      require.resolve("sql.js/dist/sql-wasm.wasm"),
+      path.join(__dirname, "..", "services", "storage", "sql-wasm.wasm"),
+    );
+  });
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "time-tracking-test-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("Torn CSV replacement rows don't replace the saved session", () => {
+    const backend = new CsvStorageBackend(directory);
+    backend.saveSession(createSession("session", 1000));
+    const filePath = getDayFile(directory);
+    const [, row] = fs.readFileSync(filePath, "utf8").split("\n");
+    const start = row.slice(0, row.indexOf(",1000,"));
+
+    // Rows of writes interrupted inside the duration and inside the notes
+    fs.appendFileSync(filePath, `${start},20\n`);
+    fs.appendFileSync(filePath, `${start},2000,,Refac\n`);
+    fs.appendFileSync(filePath, `${row.replace(",1000,", ",2000x,")}\n`);
+
+    assert.deepStrictEqual(
+      new CsvStorageBackend(directory)
+        .loadSessions()
+        .map((session) => [session.id, session.duration, session.ticket]),
+      [["session", 1000, "PROJ-1"]],
+    );
+  });
+
+  test("CSV files with an older header are read by column name", () => {
+    const filePath = path.join(directory, "time-tracking-2025-05-12.csv");
+    const startTime = new Date(2025, 4, 12, 10, 0, 0).toISOString();
+    fs.writeFileSync(
+      filePath,
+      [
+        "id,fileName,filePath,project,startTime,endTime,duration,category",
+        `old,index.ts,/project/index.ts,project,${startTime},,1000,coding`,
+        `torn,index.ts,/project/index.ts,project,${startTime},,`,
+        "",
+      ].join("\n"),
+    );
+
+    assert.deepStrictEqual(
+      new CsvStorageBackend(directory)
+        .loadSessions()
+        .map((session) => [session.id, session.duration, session.category]),
+      [["old", 1000, "coding"]],
+    );
+  });
+
+  for (const Backend of [CsvStorageBackend, JsonlStorageBackend]) {
+    test(`${Backend.name} doesn't rewrite a day file it can't read`, () => {
+      const backend = new Backend(directory);
+      const session = createSession("session", 1000);
+      backend.saveSession(session);
+      backend.saveSession(createSession("other", 2000));
+      const filePath = getDayFile(directory);
+      const content = fs.readFileSync(filePath, "utf8");
+
+      // The day file exists but reading it fails, e.g. while it is locked
+      const readFileSync = nodeFs.readFileSync;
+      nodeFs.readFileSync = (() => {
+        throw new Error("EBUSY: resource busy or locked");
+      }) as typeof nodeFs.readFileSync;
+      try {
+        assert.deepStrictEqual(backend.loadSessions(), []);
+        assert.throws(() => backend.deleteSession(session), /EBUSY/);
+      } finally {
+        nodeFs.readFileSync = readFileSync;
+      }
+
+      assert.strictEqual(fs.readFileSync(filePath, "utf8"), content);
+    });
+  }
+
+  for (const kind of STORAGE_BACKEND_KINDS) {
+    test(`A ${kind} session edited onto another day is moved there`, async () => {
+      const backend = await createStorageBackend(kind, directory);
+      const original = createSession("session", 1000);
+      const moved = {
+        ...original,
+        startTime: new Date(2025, 4, 13, 10, 0, 0),
+        endTime: new Date(2025, 4, 13, 10, 0, 1),
+      };
+
+      // How DatabaseService.updateSession replaces a session that changed day
+      backend.saveSessions([moved]);
+      backend.deleteSession(original);
+
+      assert.deepStrictEqual(
+        backend
+          .loadSessions()
+          .map((session) => [session.id, session.startTime.getDate()]),
+        [["session", 13]],
+      );
+      backend.close();
+    });
+  }
+
+  for (const kind of STORAGE_BACKEND_KINDS) {
+    test(`A ${kind} session extended past midnight is stored per day`, async () => {
+      const backend = await createStorageBackend(kind, directory);
+      const original = createSession("session", 1000);
+      const segments = splitSessionAtDayBoundaries({
+        ...original,
+        endTime: new Date(2025, 4, 13, 1, 0, 0),
+        duration: 15 * 60 * 60 * 1000,
+      });
+
+      // How DatabaseService.updateSession replaces a session that was split
+      backend.saveSessions(segments);
+      backend.deleteSession(original);
+
+      assert.deepStrictEqual(
+        backend
+          .loadSessions()
+          .map((session) => [
+            session.id,
+            session.parentId,
+            session.startTime.getDate(),
+            session.duration / (60 * 60 * 1000),
+          ]),
+        [
+          ["session-1", "session", 12, 14],
+          ["session-2", "session", 13, 1],
+        ],
+      );
+      backend.close();
+    });
+  }
+});
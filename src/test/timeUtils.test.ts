@@ -0,0 +1,357 @@
+import * as assert from "node:assert";
+import type { TimeSession } from "../models/timeTracker";
+import {
+  addDays,
+  formatDate,
+  formatTime,
+  getDayKeysInRange,
+  getStartOfDay,
+  getTimeOnDay,
+  mergeAdjacentSessions,
+  setDayTimeZone,
+  splitSessionAtDayBoundaries,
+} from "../utils/timeUtils";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Gets the length of a day in the day bucketing time zone
+ */
+function getDayLength(dayKey: string): number {
+  return (
+    getStartOfDay(addDays(dayKey, 1)).getTime() -
+    getStartOfDay(dayKey).getTime()
+  );
+}
+
+/**
+ * Creates an ended session
+ */
+function createSession(startTime: Date, endTime: Date): TimeSession {
+  return {
+    id: "s1",
+    fileName: "index.ts",
+    filePath: "/project/index.ts",
+    project: "project",
+    startTime,
+    endTime,
+    duration: endTime.getTime() - startTime.getTime(),
+    notes: "Refactoring",
+  };
+}
+
+suite("Time Utils Test Suite", () => {
+  teardown(() => {
+    setDayTimeZone(undefined);
+  });
+
+  test("Days start at local midnight without a time zone", () => {
+    setDayTimeZone(undefined);
+
+    assert.strictEqual(
+      getStartOfDay("2024-01-05").getTime(),
+      new Date(2024, 0, 5).getTime(),
+    );
+    assert.strictEqual(formatDate(new Date(2024, 0, 5, 23, 59)), "2024-01-05");
+    assert.strictEqual(formatDate(new Date(2024, 0, 6, 0, 0)), "2024-01-06");
+  });
+
+  test("Days start at midnight in the configured time zone", () => {
+    setDayTimeZone("Europe/Berlin");
+    assert.strictEqual(
+      getStartOfDay("2024-01-05").toISOString(),
+      "2024-01-04T23:00:00.000Z",
+    );
+    assert.strictEqual(
+      getStartOfDay("2024-07-05").toISOString(),
+      "2024-07-04T22:00:00.000Z",
+    );
+
+    setDayTimeZone("America/New_York");
+    assert.strictEqual(
+      getStartOfDay("2024-01-05").toISOString(),
+      "2024-01-05T05:00:00.000Z",
+    );
+  });
+
+  test("Moments are bucketed into the day of the configured time zone", () => {
+    const moment = new Date("2024-03-30T23:30:00Z");
+
+    setDayTimeZone("Europe/Berlin");
+    assert.strictEqual(formatDate(moment), "2024-03-31");
+    assert.strictEqual(formatTime(moment), "00:30");
+
+    setDayTimeZone("America/New_York");
+    assert.strictEqual(formatDate(moment), "2024-03-30");
+    assert.strictEqual(formatTime(moment), "19:30");
+
+    setDayTimeZone("Asia/Tokyo");
+    assert.strictEqual(formatDate(moment), "2024-03-31");
+    assert.strictEqual(formatTime(moment), "08:30");
+  });
+
+  test("Daylight saving transitions give 23 and 25 hour days", () => {
+    setDayTimeZone("Europe/Berlin");
+    assert.strictEqual(getDayLength("2024-03-30"), 24 * HOUR);
+    assert.strictEqual(getDayLength("2024-03-31"), 23 * HOUR);
+    assert.strictEqual(getDayLength("2024-10-27"), 25 * HOUR);
+
+    setDayTimeZone("America/New_York");
+    assert.strictEqual(getDayLength("2024-03-10"), 23 * HOUR);
+    assert.strictEqual(getDayLength("2024-11-03"), 25 * HOUR);
+  });
+
+  test("Times of day are found on daylight saving transition days", () => {
+    setDayTimeZone("Europe/Berlin");
+    assert.strictEqual(
+      getTimeOnDay("2024-03-31", 1, 30).toISOString(),
+      "2024-03-31T00:30:00.000Z",
+    );
+    assert.strictEqual(
+      getTimeOnDay("2024-03-31", 3, 0).toISOString(),
+      "2024-03-31T01:00:00.000Z",
+    );
+    assert.strictEqual(
+      getTimeOnDay("2024-10-27", 12, 0).toISOString(),
+      "2024-10-27T11:00:00.000Z",
+    );
+    assert.strictEqual(formatTime(getTimeOnDay("2024-10-27", 23, 59)), "23:59");
+
+    setDayTimeZone("America/New_York");
+    assert.strictEqual(
+      getTimeOnDay("2024-11-03", 9, 15).toISOString(),
+      "2024-11-03T14:15:00.000Z",
+    );
+  });
+
+  test("Moments around a daylight saving transition keep their day", () => {
+    setDayTimeZone("Europe/Berlin");
+    const start = getStartOfDay("2024-10-27").getTime();
+
+    assert.strictEqual(formatDate(new Date(start - 1)), "2024-10-26");
+    assert.strictEqual(formatDate(new Date(start)), "2024-10-27");
+    assert.strictEqual(
+      formatDate(new Date(start + 25 * HOUR - 1)),
+      "2024-10-27",
+    );
+    assert.strictEqual(formatDate(new Date(start + 25 * HOUR)), "2024-10-28");
+  });
+
+  test("Day ranges include every day across a transition", () => {
+    setDayTimeZone("America/New_York");
+
+    assert.deepStrictEqual(
+      getDayKeysInRange(
+        getTimeOnDay("2024-03-09", 22, 0),
+        getTimeOnDay("2024-03-11", 1, 0),
+      ),
+      ["2024-03-09", "2024-03-10", "2024-03-11"],
+    );
+  });
+
+  test("Unsupported time zones fall back to local time", () => {
+    assert.strictEqual(setDayTimeZone("Not/A_Zone"), false);
+    assert.strictEqual(
+      getStartOfDay("2024-01-05").getTime(),
+      new Date(2024, 0, 5).getTime(),
+    );
+    assert.strictEqual(setDayTimeZone("Europe/Berlin"), true);
+  });
+
+  test("Sessions within a day are not split", () => {
+    setDayTimeZone("Europe/Berlin");
+    const session = createSession(
+      getTimeOnDay("2024-01-05", 9, 0),
+      getTimeOnDay("2024-01-05", 17, 0),
+    );
+
+    assert.deepStrictEqual(splitSessionAtDayBoundaries(session), [session]);
+  });
+
+  test("Sessions ending at midnight are not split", () => {
+    setDayTimeZone("Europe/Berlin");
+    const session = createSession(
+      getTimeOnDay("2024-01-05", 22, 0),
+      getStartOfDay("2024-01-06"),
+    );
+
+    assert.deepStrictEqual(splitSessionAtDayBoundaries(session), [session]);
+  });
+
+  test("Sessions across several midnights are split per day", () => {
+    setDayTimeZone("Europe/Berlin");
+    const session = createSession(
+      getTimeOnDay("2024-01-05", 22, 0),
+      getTimeOnDay("2024-01-08", 2, 30),
+    );
+
+    const segments = splitSessionAtDayBoundaries(session);
+
+    assert.deepStrictEqual(
+      segments.map((segment) => [
+        segment.id,
+        segment.parentId,
+        formatDate(segment.startTime),
+        formatTime(segment.startTime),
+        formatTime(segment.endTime as Date),
+        segment.duration / HOUR,
+      ]),
+      [
+        ["s1-1", "s1", "2024-01-05", "22:00", "00:00", 2],
+        ["s1-2", "s1", "2024-01-06", "00:00", "00:00", 24],
+        ["s1-3", "s1", "2024-01-07", "00:00", "00:00", 24],
+        ["s1-4", "s1", "2024-01-08", "00:00", "02:30", 2.5],
+      ],
+    );
+    for (const segment of segments) {
+      assert.strictEqual(segment.notes, session.notes);
+    }
+  });
+
+  test("Split segments follow the length of daylight saving days", () => {
+    setDayTimeZone("Europe/Berlin");
+    const session = createSession(
+      getTimeOnDay("2024-03-30", 12, 0),
+      getTimeOnDay("2024-04-01", 12, 0),
+    );
+
+    const segments = splitSessionAtDayBoundaries(session);
+
+    assert.deepStrictEqual(
+      segments.map((segment) => segment.duration / HOUR),
+      [12, 23, 12],
+    );
+    assert.strictEqual(
+      segments.reduce((sum, segment) => sum + segment.duration, 0),
+      session.duration,
+    );
+
+    const fallBack = splitSessionAtDayBoundaries(
+      createSession(
+        getTimeOnDay("2024-10-26", 23, 0),
+        getTimeOnDay("2024-10-28", 1, 0),
+      ),
+    );
+    assert.deepStrictEqual(
+      fallBack.map((segment) => segment.duration / HOUR),
+      [1, 25, 1],
+    );
+  });
+
+  test("Sessions are split at midnight of the configured time zone", () => {
+    const startTime = new Date("2024-01-05T20:00:00Z");
+    const endTime = new Date("2024-01-06T02:00:00Z");
+
+    setDayTimeZone("Europe/Berlin");
+    assert.deepStrictEqual(
+      splitSessionAtDayBoundaries(createSession(startTime, endTime)).map(
+        (segment) => segment.endTime?.toISOString(),
+      ),
+      ["2024-01-05T23:00:00.000Z", "2024-01-06T02:00:00.000Z"],
+    );
+
+    setDayTimeZone("America/New_York");
+    assert.deepStrictEqual(
+      splitSessionAtDayBoundaries(createSession(startTime, endTime)).map(
+        (segment) => segment.endTime?.toISOString(),
+      ),
+      ["2024-01-06T02:00:00.000Z"],
+    );
+  });
+
+  test("Segments of an edited segment keep the original parent id", () => {
+    setDayTimeZone("Europe/Berlin");
+    const [, segment] = splitSessionAtDayBoundaries(
+      createSession(
+        getTimeOnDay("2024-01-05", 22, 0),
+        getTimeOnDay("2024-01-06", 2, 0),
+      ),
+    );
+
+    const edited = splitSessionAtDayBoundaries({
+      ...segment,
+      startTime: getTimeOnDay("2024-01-05", 23, 0),
+    });
+
+    assert.deepStrictEqual(
+      edited.map((part) => [part.id, part.parentId]),
+      [
+        ["s1-2-1", "s1"],
+        ["s1-2-2", "s1"],
+      ],
+    );
+  });
+
+  test("Merged sessions last from the first start to the second end", () => {
+    setDayTimeZone("Europe/Berlin");
+    const first = createSession(
+      getTimeOnDay("2024-01-05", 9, 0),
+      getTimeOnDay("2024-01-05", 10, 0),
+    );
+    const second = {
+      ...createSession(
+        new Date(getTimeOnDay("2024-01-05", 10, 0).getTime() + 30 * 1000),
+        getTimeOnDay("2024-01-05", 11, 0),
+      ),
+      id: "s2",
+      notes: "Tests",
+      ticket: "PROJ-2",
+      endCommit: "def456",
+    };
+
+    const merged = mergeAdjacentSessions(first, second);
+
+    assert.strictEqual(merged.id, "s1");
+    assert.strictEqual(merged.startTime, first.startTime);
+    assert.strictEqual(merged.endTime, second.endTime);
+    assert.strictEqual(merged.duration, 2 * HOUR);
+    assert.strictEqual(merged.notes, "Refactoring; Tests");
+    assert.strictEqual(merged.ticket, "PROJ-2");
+    assert.strictEqual(merged.endCommit, "def456");
+  });
+
+  test("Sessions merged across midnight are split per day", () => {
+    setDayTimeZone("Europe/Berlin");
+    const merged = mergeAdjacentSessions(
+      createSession(
+        getTimeOnDay("2024-01-05", 23, 0),
+        new Date(getTimeOnDay("2024-01-05", 23, 59).getTime() + 30 * 1000),
+      ),
+      createSession(
+        new Date(getTimeOnDay("2024-01-05", 23, 59).getTime() + 30 * 1000),
+        getTimeOnDay("2024-01-06", 1, 0),
+      ),
+    );
+
+    assert.deepStrictEqual(
+      splitSessionAtDayBoundaries(merged).map((segment) => [
+        formatDate(segment.startTime),
+        segment.duration / HOUR,
+      ]),
+      [
+        ["2024-01-05", 1],
+        ["2024-01-06", 1],
+      ],
+    );
+  });
+
+  test("Focused and unfocused sessions aren't merged", () => {
+    const first = createSession(
+      new Date("2024-01-05T09:00:00Z"),
+      new Date("2024-01-05T10:00:00Z"),
+    );
+    const second = {
+      ...createSession(
+        new Date("2024-01-05T10:00:00Z"),
+        new Date("2024-01-05T11:00:00Z"),
+      ),
+      focused: false,
+    };
+
+    assert.throws(() => mergeAdjacentSessions(first, second), /unfocused/);
+    assert.strictEqual(
+      mergeAdjacentSessions(first, { ...second, focused: true }).duration,
+      2 * HOUR,
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  type WebhookDelivery,
+  WebhookOutbox,
+  type WebhookRetryOptions,
+  getRetryDelay,
+} from "../services/webhookOutbox";
+import { postWebhook } from "../services/webhookService";
+
+/**
+ * Local stand-in for a webhook endpoint that answers with the queued status
+ * codes, then with 204
+ */
+class StandInServer {
+  public readonly received: {
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }[] = [];
+  public statuses: number[] = [];
+  private server: http.Server | undefined;
+  private port = 0;
+
+  /**
+   * Starts listening, on the same port as before if it was started already
+   */
+  public start(): Promise<void> {
+    this.server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => {
+        body += chunk;
+      });
+      request.on("end", () => {
+        this.received.push({ headers: request.headers, body });
+        response.statusCode = this.statuses.shift() ?? 204;
+        response.end();
+      });
+    });
+
+    return new Promise((resolve) => {
+      this.server?.listen(this.port, "127.0.0.1", () => {
+        this.port = (this.server?.address() as AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stops listening, so deliveries fail with a connection error
+   */
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  public get url(): string {
+    return `http://127.0.0.1:${this.port}/hooks`;
+  }
+}
+
+/**
+ * Waits until a condition holds, failing the test after a second
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 1000;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Sends a delivery the way the webhook service does, without signing it
+ */
+function send(delivery: WebhookDelivery): Promise<void> {
+  return postWebhook(
+    delivery.url,
+    { "Content-Type": "application/json", "Webhook-Id": delivery.id },
+    delivery.payload,
+  );
+}
+
+suite("Webhook Outbox Test Suite", () => {
+  const fastRetries: WebhookRetryOptions = {
+    baseDelay: 10,
+    maxDelay: 40,
+    maxAge: 60000,
+  };
+  let directory: string;
+  let server: StandInServer;
+  let outbox: WebhookOutbox;
+
+  setup(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "time-tracking-test-"));
+    server = new StandInServer();
+    await server.start();
+    outbox = new WebhookOutbox(directory, send, fastRetries);
+  });
+
+  teardown(async () => {
+    outbox.dispose();
+    await server.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("Retry delay doubles up to the maximum", () => {
+    const options = { baseDelay: 1000, maxDelay: 5000, maxAge: 0 };
+    assert.deepStrictEqual(
+      [1, 2, 3, 4].map((attempts) => getRetryDelay(attempts, options)),
+      [1000, 2000, 4000, 5000],
+    );
+  });
+
+  test("Delivers a queued event and removes it from the outbox", async () => {
+    outbox.enqueue("msg_1", server.url, '{"type":"time.session.completed"}');
+    await outbox.flush();
+
+    assert.strictEqual(server.received.length, 1);
+    assert.strictEqual(server.received[0].headers["webhook-id"], "msg_1");
+    assert.strictEqual(
+      server.received[0].body,
+      '{"type":"time.session.completed"}',
+    );
+    assert.deepStrictEqual(outbox.getPending(), []);
+  });
+
+  test("Keeps the event type of a templated delivery", async () => {
+    server.statuses = [500];
+    outbox.enqueue(
+      "msg_1",
+      server.url,
+      '{"text":"Worked 1h 30m"}',
+      "Slack",
+      "time.session.completed",
+    );
+    await outbox.flush();
+
+    const [failed] = new WebhookOutbox(directory, send).getPending();
+    assert.strictEqual(failed.type, "time.session.completed");
+    assert.strictEqual(failed.endpoint, "Slack");
+  });
+
+  test("Retries failed deliveries with backoff until accepted", async () => {
+    server.statuses = [500, 503];
+    outbox.enqueue("msg_1", server.url, "{}");
+    await outbox.flush();
+
+    const [failed] = outbox.getPending();
+    assert.strictEqual(failed.attempts, 1);
+    assert.match(failed.lastError ?? "", /status 500/);
+
+    await waitFor(() => server.received.length === 3);
+    await outbox.flush();
+    assert.deepStrictEqual(outbox.getPending(), []);
+    assert.deepStrictEqual(outbox.getDeadLetters(), []);
+  });
+
+  test("Keeps events queued while offline and sends them on the next activation", async () => {
+    await server.stop();
+    outbox.enqueue("msg_1", server.url, "{}");
+    outbox.enqueue("msg_2", server.url, "{}");
+    await outbox.flush();
+    outbox.dispose();
+    assert.strictEqual(outbox.getPending().length, 2);
+
+    // A new outbox on the same directory, like after restarting VS Code
+    await server.start();
+    outbox = new WebhookOutbox(directory, send, fastRetries);
+    await outbox.retryNow();
+
+    assert.deepStrictEqual(
+      server.received.map((request) => request.headers["webhook-id"]),
+      ["msg_1", "msg_2"],
+    );
+    assert.deepStrictEqual(outbox.getPending(), []);
+  });
+
+  test("Dead-letters events past the maximum age and replays them", async () => {
+    outbox.dispose();
+    outbox = new WebhookOutbox(directory, send, { ...fastRetries, maxAge: 0 });
+    server.statuses = [500];
+    outbox.enqueue("msg_1", server.url, "{}");
+    await outbox.flush();
+
+    assert.deepStrictEqual(outbox.getPending(), []);
+    const [dead] = outbox.getDeadLetters();
+    assert.strictEqual(dead.id, "msg_1");
+    assert.strictEqual(dead.attempts, 1);
+
+    await outbox.replay();
+    assert.strictEqual(server.received.length, 2);
+    assert.deepStrictEqual(outbox.getDeadLetters(), []);
+    assert.deepStrictEqual(outbox.getPending(), []);
+  });
+
+  test("Releases deliveries claimed by a process that crashed", async () => {
+    const delivery = outbox.enqueue("msg_1", server.url, "{}");
+    const filePath = path.join(
+      directory,
+      `${delivery.createdAt}-${delivery.id}.json`,
+    );
+    // No process has this id, as ids are far below the maximum
+    fs.renameSync(filePath, `${filePath}.sending-999999999`);
+
+    await outbox.flush();
+    assert.strictEqual(server.received.length, 1);
+    assert.deepStrictEqual(fs.readdirSync(directory), []);
+  });
+});
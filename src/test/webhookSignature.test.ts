@@ -0,0 +1,91 @@
+import * as assert from "node:assert";
+import {
+  decodeWebhookSecret,
+  parseWebhookSecrets,
+  signWebhook,
+  validateWebhookSecrets,
+} from "../services/webhookSignature";
+
+// Test vector published with the Standard Webhooks specification and used
+// by its reference libraries
+const SPEC_SECRET = "whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw";
+const SPEC_ID = "msg_p5jXN8AQM9LWM0D4loKWxJek";
+const SPEC_TIMESTAMP = 1614265330;
+const SPEC_PAYLOAD = '{"test": 2432232314}';
+const SPEC_SIGNATURE = "v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=";
+
+suite("Webhook Signature Test Suite", () => {
+  test("Signs the specification's test vector", () => {
+    assert.strictEqual(
+      signWebhook(SPEC_ID, SPEC_TIMESTAMP, SPEC_PAYLOAD, [SPEC_SECRET]),
+      SPEC_SIGNATURE,
+    );
+  });
+
+  test("Accepts secrets without the whsec_ prefix", () => {
+    assert.strictEqual(
+      signWebhook(SPEC_ID, SPEC_TIMESTAMP, SPEC_PAYLOAD, [
+        SPEC_SECRET.slice("whsec_".length),
+      ]),
+      SPEC_SIGNATURE,
+    );
+  });
+
+  test("Signature depends on the id, timestamp and payload", () => {
+    const sign = (id: string, timestamp: number, payload: string) =>
+      signWebhook(id, timestamp, payload, [SPEC_SECRET]);
+
+    assert.notStrictEqual(
+      sign("msg_other", SPEC_TIMESTAMP, SPEC_PAYLOAD),
+      SPEC_SIGNATURE,
+    );
+    assert.notStrictEqual(
+      sign(SPEC_ID, SPEC_TIMESTAMP + 1, SPEC_PAYLOAD),
+      SPEC_SIGNATURE,
+    );
+    assert.notStrictEqual(
+      sign(SPEC_ID, SPEC_TIMESTAMP, '{"test": 2432232315}'),
+      SPEC_SIGNATURE,
+    );
+  });
+
+  test("Signs with each secret while rotating", () => {
+    const newSecret = "whsec_dGhpcyBpcyB0aGUgbmV3IHNlY3JldCBrZXk=";
+    const header = signWebhook(
+      SPEC_ID,
+      SPEC_TIMESTAMP,
+      SPEC_PAYLOAD,
+      parseWebhookSecrets(`  ${newSecret}   ${SPEC_SECRET} `),
+    );
+
+    const signatures = header.split(" ");
+    assert.strictEqual(signatures.length, 2);
+    assert.match(signatures[0], /^v1,[A-Za-z0-9+/]{43}=$/);
+    assert.strictEqual(signatures[1], SPEC_SIGNATURE);
+  });
+
+  test("Parses empty secret settings as no secrets", () => {
+    assert.deepStrictEqual(parseWebhookSecrets(undefined), []);
+    assert.deepStrictEqual(parseWebhookSecrets("  "), []);
+  });
+
+  test("Rejects secrets that are not base64", () => {
+    assert.throws(() => decodeWebhookSecret("whsec_not base64!"), /base64/);
+    assert.throws(() => decodeWebhookSecret("my-plain-secret"), /base64/);
+  });
+
+  test("Secrets are valid if each of them is a base64 key", () => {
+    assert.strictEqual(validateWebhookSecrets(undefined), undefined);
+    assert.strictEqual(validateWebhookSecrets(""), undefined);
+    assert.strictEqual(
+      validateWebhookSecrets(
+        ` ${SPEC_SECRET}  MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw `,
+      ),
+      undefined,
+    );
+    assert.match(
+      validateWebhookSecrets(`${SPEC_SECRET} my-secret`) ?? "",
+      /base64/,
+    );
+  });
+});
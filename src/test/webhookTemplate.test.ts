@@ -0,0 +1,129 @@
+import * as assert from "node:assert";
+import {
+  getUnknownFormatters,
+  renderWebhookTemplate,
+} from "../services/webhookTemplate";
+
+const EVENT = {
+  id: "msg_1",
+  timestamp: "2024-03-15T10:30:00.000Z",
+  type: "time.session.completed",
+  data: {
+    project: "api",
+    duration: 5400000, // 1h 30m
+    files: ["index.ts", "server.ts"],
+    git: { branch: "main" },
+    notes: null,
+  },
+};
+
+suite("Webhook Template Test Suite", () => {
+  test("A string that is a single placeholder keeps the value's type", () => {
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.duration}}", EVENT),
+      5400000,
+    );
+    assert.deepStrictEqual(renderWebhookTemplate("{{ data.files }}", EVENT), [
+      "index.ts",
+      "server.ts",
+    ]);
+    assert.deepStrictEqual(renderWebhookTemplate("{{data.git}}", EVENT), {
+      branch: "main",
+    });
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.missing}}", EVENT),
+      undefined,
+    );
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.duration | minutes}}", EVENT),
+      90,
+    );
+  });
+
+  test("Placeholders inside text are inserted as text", () => {
+    assert.strictEqual(
+      renderWebhookTemplate(
+        "Worked {{data.duration | duration}} on {{data.project}}",
+        EVENT,
+      ),
+      "Worked 1h 30m on api",
+    );
+    assert.strictEqual(
+      renderWebhookTemplate("Files: {{data.files}}", EVENT),
+      'Files: ["index.ts","server.ts"]',
+    );
+    assert.strictEqual(
+      renderWebhookTemplate("Notes: {{data.notes}}{{data.missing}}", EVENT),
+      "Notes: ",
+    );
+  });
+
+  test("Each formatter converts the value", () => {
+    const render = (formatter: string) =>
+      renderWebhookTemplate(`{{data.duration | ${formatter}}}`, EVENT);
+
+    assert.strictEqual(render("seconds"), 5400);
+    assert.strictEqual(render("minutes"), 90);
+    assert.strictEqual(render("hours"), 1.5);
+    assert.strictEqual(render("duration"), "1h 30m");
+    assert.strictEqual(render("clock"), "01:30:00");
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.git | json}}", EVENT),
+      '{"branch":"main"}',
+    );
+  });
+
+  test("Formatters round to their unit", () => {
+    const event = { data: { duration: 5430500 } }; // 1h 30m 30.5s
+
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.duration | seconds}}", event),
+      5431,
+    );
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.duration | minutes}}", event),
+      91,
+    );
+    assert.strictEqual(
+      renderWebhookTemplate("{{data.duration | hours}}", event),
+      1.51,
+    );
+  });
+
+  test("Objects and lists are rendered recursively", () => {
+    assert.deepStrictEqual(
+      renderWebhookTemplate(
+        {
+          text: "{{data.project}}: {{data.duration | clock}}",
+          blocks: [{ value: "{{data.duration | seconds}}" }, 42, true, null],
+        },
+        EVENT,
+      ),
+      {
+        text: "api: 01:30:00",
+        blocks: [{ value: 5400 }, 42, true, null],
+      },
+    );
+  });
+
+  test("Unknown formatters are found in nested templates", () => {
+    assert.deepStrictEqual(
+      getUnknownFormatters({
+        text: "{{data.duration | minuts}} and {{data.duration | minutes}}",
+        blocks: [
+          { value: "{{data.duration|hour}}" },
+          "{{data.duration | minuts}}",
+          "{{data.project | toString}}",
+        ],
+      }),
+      ["minuts", "hour", "toString"],
+    );
+    assert.deepStrictEqual(
+      getUnknownFormatters({
+        text: "{{data.project}} {{data.duration | clock}}",
+      }),
+      [],
+    );
+    assert.deepStrictEqual(getUnknownFormatters(undefined), []);
+  });
+});
@@ -0,0 +1,192 @@
+import * as os from "node:os";
+import * as vscode from "vscode";
+import {
+  type CalendarEventMode,
+  type ExportFormat,
+  type ExportOptions,
+  ExportService,
+  type RoundingMode,
+} from "../services/exportService";
+import {
+  DATE_RANGE_PRESETS,
+  type DateRange,
+  createCustomRange,
+  getPresetRange,
+} from "../utils/dateRange";
+import type { SessionFilter } from "../utils/sessionFilter";
+import { formatDate } from "../utils/timeUtils";
+
+/**
+ * Range and filter to export, e.g. the ones shown in the report
+ * Missing values are asked for
+ */
+export interface ExportRequest {
+  range?: DateRange;
+  filter?: SessionFilter;
+}
+
+/**
+ * Quick pick item for an export format
+ */
+interface FormatPickItem extends vscode.QuickPickItem {
+  format: ExportFormat;
+}
+
+/**
+ * Save dialog filters of the export formats
+ */
+const FILE_FILTERS: Record<ExportFormat, Record<string, string[]>> = {
+  csv: { CSV: ["csv"] },
+  json: { JSON: ["json"] },
+  timesheet: { CSV: ["csv"] },
+  ics: { iCalendar: ["ics"] },
+};
+
+/**
+ * Asks for a day
+ * @returns The day as YYYY-MM-DD, or undefined if the user cancelled
+ */
+async function promptDay(
+  prompt: string,
+  value: string,
+): Promise<string | undefined> {
+  const day = await vscode.window.showInputBox({
+    prompt,
+    placeHolder: "YYYY-MM-DD",
+    value,
+    validateInput: (text) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(text.trim())
+        ? undefined
+        : "Enter a day as YYYY-MM-DD",
+  });
+  return day?.trim();
+}
+
+/**
+ * Asks for the date range to export, offering the report's presets
+ * @returns The range, or undefined if the user cancelled
+ */
+async function promptDateRange(): Promise<DateRange | undefined> {
+  const customRange = "Custom Range...";
+  const choice = await vscode.window.showQuickPick(
+    [...DATE_RANGE_PRESETS.map(({ label }) => label), customRange],
+    { placeHolder: "Select the date range to export" },
+  );
+
+  if (choice === customRange) {
+    const today = formatDate(new Date());
+    const start = await promptDay("First day to export", today);
+    const end = start && (await promptDay("Last day to export", today));
+    return start && end ? createCustomRange(start, end) : undefined;
+  }
+
+  const preset = DATE_RANGE_PRESETS.find(({ label }) => label === choice);
+  return preset ? getPresetRange(preset.preset) : undefined;
+}
+
+/**
+ * Asks which projects to export
+ * @returns A filter on the picked projects (none picked exports all), or
+ * undefined if the user cancelled
+ */
+async function promptFilter(
+  exportService: ExportService,
+  range: DateRange,
+): Promise<SessionFilter | undefined> {
+  const projects = [
+    ...new Set(
+      exportService.getSessions(range, {}).map((session) => session.project),
+    ),
+  ].sort((a, b) => a.localeCompare(b));
+  if (projects.length <= 1) {
+    return {};
+  }
+
+  const picked = await vscode.window.showQuickPick(projects, {
+    placeHolder: "Select the projects to export, or none for all projects",
+    canPickMany: true,
+  });
+  return picked ? { projects: picked } : undefined;
+}
+
+/**
+ * Asks for a format, range, filter and file, and exports the sessions
+ * @param exportService Service writing the export
+ * @param request Range and filter to export; missing ones are asked for
+ */
+export async function exportSessions(
+  exportService: ExportService,
+  request: ExportRequest = {},
+): Promise<void> {
+  const formats: FormatPickItem[] = [
+    { label: "CSV", description: "One row per session", format: "csv" },
+    { label: "JSON", description: "One object per session", format: "json" },
+    {
+      label: "Timesheet",
+      description: "Hours per project and ticket per day, as CSV",
+      format: "timesheet",
+    },
+    {
+      label: "iCalendar",
+      description: "One calendar event per session or block of sessions",
+      format: "ics",
+    },
+  ];
+  const format = await vscode.window.showQuickPick(formats, {
+    placeHolder: "Select the export format",
+  });
+  if (!format) {
+    return;
+  }
+
+  const range = request.range ?? (await promptDateRange());
+  if (!range) {
+    return;
+  }
+  const filter = request.filter ?? (await promptFilter(exportService, range));
+  if (!filter) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("timeTracking");
+  const options: ExportOptions = {
+    format: format.format,
+    range,
+    filter,
+    roundingMinutes: config.get<number>("timesheetRounding", 15),
+    roundingMode: config.get<RoundingMode>("timesheetRoundingMode", "nearest"),
+    calendarEvents: config.get<CalendarEventMode>("calendarEvents", "block"),
+  };
+
+  const defaultDirectory =
+    vscode.workspace.workspaceFolders?.[0]?.uri ??
+    vscode.Uri.file(os.homedir());
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(
+      defaultDirectory,
+      ExportService.getDefaultFileName(options),
+    ),
+    filters: FILE_FILTERS[format.format],
+    saveLabel: "Export",
+  });
+  if (!uri) {
+    return;
+  }
+
+  try {
+    exportService.exportToFile(options, uri.fsPath);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to export sessions: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+
+  const selection = await vscode.window.showInformationMessage(
+    `Exported ${exportService.getSessions(range, filter).length} sessions to ${uri.fsPath}.`,
+    "Open File",
+  );
+  if (selection === "Open File") {
+    await vscode.commands.executeCommand("vscode.open", uri);
+  }
+}
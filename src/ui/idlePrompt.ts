@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+import {
+  type IdleResolution,
+  SESSION_CATEGORIES,
+  type TimeSession,
+} from "../models/timeTracker";
+import { formatDurationShort, formatTime } from "../utils/timeUtils";
+
+/**
+ * Asks the user what to do with a period they were idle
+ * @param idleSession The idle period cut out of the tracked session
+ * @param projects Projects offered when reassigning the idle time
+ * @returns The user's choice; dismissing the prompt keeps the idle time
+ */
+export async function promptIdleResolution(
+  idleSession: TimeSession,
+  projects: string[],
+): Promise<IdleResolution> {
+  const idleStart = formatTime(idleSession.startTime);
+  const idleEnd = formatTime(idleSession.endTime ?? new Date());
+
+  const selection = await vscode.window.showWarningMessage(
+    `You were idle from ${idleStart} to ${idleEnd} (${formatDurationShort(idleSession.duration)}). What do you want to do with this time?`,
+    "Keep",
+    "Discard",
+    "Reassign",
+  );
+
+  if (selection === "Discard") {
+    return { action: "discard" };
+  }
+  if (selection === "Reassign") {
+    return (
+      (await promptReassignment(idleSession, projects)) ?? {
+        action: "keep",
+      }
+    );
+  }
+  return { action: "keep" };
+}
+
+/**
+ * Asks for the category or project to book idle time to
+ * @returns undefined if the user cancelled
+ */
+async function promptReassignment(
+  idleSession: TimeSession,
+  projects: string[],
+): Promise<IdleResolution | undefined> {
+  const target = await vscode.window.showQuickPick(
+    [
+      { label: "Category", description: idleSession.category },
+      { label: "Project", description: idleSession.project },
+    ],
+    { placeHolder: "Reassign the idle time to a different..." },
+  );
+
+  if (target?.label === "Category") {
+    const category = await vscode.window.showQuickPick(SESSION_CATEGORIES, {
+      placeHolder: "Select a category for the idle time",
+    });
+    return category ? { action: "reassign", category } : undefined;
+  }
+
+  if (target?.label === "Project") {
+    const otherProject = "Other project...";
+    let project = await vscode.window.showQuickPick(
+      [...new Set(projects)].concat(otherProject),
+      { placeHolder: "Select a project for the idle time" },
+    );
+    if (project === otherProject) {
+      project = await vscode.window.showInputBox({
+        prompt: "Enter the project to book the idle time to",
+      });
+    }
+    return project ? { action: "reassign", project } : undefined;
+  }
+
+  return undefined;
+}
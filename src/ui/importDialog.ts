@@ -0,0 +1,148 @@
+import * as os from "node:os";
+import * as vscode from "vscode";
+import type { TimeSession } from "../models/timeTracker";
+import {
+  type ImportPreview,
+  type ImportService,
+  SESSION_IMPORTERS,
+} from "../services/importService";
+import {
+  formatDate,
+  formatDurationShort,
+  formatTime,
+} from "../utils/timeUtils";
+
+/**
+ * Quick pick item for an imported session
+ */
+interface SessionPickItem extends vscode.QuickPickItem {
+  session: TimeSession;
+}
+
+/**
+ * Reads an export, asking for the tracker it came from if its format is not
+ * recognized
+ * @returns The preview, or undefined if the user cancelled
+ */
+async function previewImport(
+  importService: ImportService,
+  filePath: string,
+): Promise<ImportPreview | undefined> {
+  const preview = importService.preview(filePath);
+  if (preview) {
+    return preview;
+  }
+
+  const source = await vscode.window.showQuickPick(
+    SESSION_IMPORTERS.map((importer) => ({
+      label: importer.label,
+      importer,
+    })),
+    {
+      placeHolder:
+        "The file format was not recognized. Select the tracker it was exported from",
+    },
+  );
+  return source && importService.preview(filePath, source.importer);
+}
+
+/**
+ * Describes what an import skips, e.g. "3 already imported"
+ */
+function describeSkipped(preview: ImportPreview): string {
+  const skipped = [
+    preview.duplicates > 0 ? `${preview.duplicates} already imported` : "",
+    preview.invalidEntries > 0
+      ? `${preview.invalidEntries} unreadable entries`
+      : "",
+  ].filter(Boolean);
+  return skipped.length > 0 ? ` (skipping ${skipped.join(" and ")})` : "";
+}
+
+/**
+ * Asks for an export of another tracker, previews its new sessions and
+ * imports the ones the user keeps selected
+ * @param importService Service reading and saving the export
+ */
+export async function importSessions(
+  importService: ImportService,
+): Promise<void> {
+  const uris = await vscode.window.showOpenDialog({
+    defaultUri: vscode.Uri.file(os.homedir()),
+    filters: {
+      "Toggl Track, Clockify or WakaTime export": ["csv", "json"],
+    },
+    openLabel: "Import",
+  });
+  if (!uris?.[0]) {
+    return;
+  }
+
+  let preview: ImportPreview | undefined;
+  try {
+    preview = await previewImport(importService, uris[0].fsPath);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to read export: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+  if (!preview) {
+    return;
+  }
+
+  const { source, sessions } = preview;
+  if (sessions.length === 0) {
+    vscode.window.showInformationMessage(
+      `No new sessions found in the ${source.label} export${describeSkipped(preview)}.`,
+    );
+    return;
+  }
+
+  // Overlapping sessions would count the same time twice, so they are only
+  // imported if the user checks them
+  const items: SessionPickItem[] = sessions.map((session) => {
+    const overlap = preview.overlaps.get(session);
+    return {
+      label: overlap ? `$(warning) ${session.project}` : session.project,
+      description: `${formatDate(session.startTime)} ${formatTime(session.startTime)} - ${session.endTime ? formatTime(session.endTime) : ""} (${formatDurationShort(session.duration)})`,
+      detail: overlap
+        ? [
+            `${Math.round(overlap * 100)}% overlaps saved sessions`,
+            session.notes,
+          ]
+            .filter(Boolean)
+            .join(" · ")
+        : session.notes,
+      picked: !overlap,
+      session,
+    };
+  });
+  const overlapping =
+    preview.overlaps.size > 0
+      ? `, ${preview.overlaps.size} overlapping saved sessions are unchecked`
+      : "";
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `Import from ${source.label}`,
+    placeHolder: `${sessions.length} new sessions${describeSkipped(preview)}${overlapping}. Uncheck the ones to leave out`,
+    canPickMany: true,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (!picked || picked.length === 0) {
+    return;
+  }
+
+  try {
+    importService.importSessions(picked.map((item) => item.session));
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to import sessions: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+
+  vscode.window.showInformationMessage(
+    `Imported ${picked.length} sessions from ${source.label}.`,
+  );
+}
@@ -1,11 +1,103 @@
 import * as vscode from "vscode";
 import type { TimeSession, TimeTrackerModel } from "../models/timeTracker";
+import {
+  DATE_RANGE_PRESETS,
+  type DateRange,
+  createCustomRange,
+  findMatchingPreset,
+  formatDateRange,
+  getDateRangeDates,
+  getDateRangeLength,
+  getPresetRange,
+  refreshDateRange,
+  shiftDateRange,
+} from "../utils/dateRange";
+import {
+  type SessionFilter,
+  type SessionFilterField,
+  applySessionFilter,
+  getFilterOptions,
+  isFilterActive,
+} from "../utils/sessionFilter";
 import {
   formatDate,
   formatDuration,
+  formatWeekday,
+  getDayKeysInRange,
+  getFocusedDuration,
+  getStartOfDay,
   groupSessionsByDay,
   groupSessionsByProject,
+  isFocusedSession,
 } from "../utils/timeUtils";
+import { getNonce } from "../utils/webviewUtils";
+
+// Filter fields set by the filter messages of the webview
+const FILTER_COMMANDS: Record<string, SessionFilterField> = {
+  filterByProject: "projects",
+  filterByCategory: "categories",
+  filterByExtension: "extensions",
+  filterByBranch: "branches",
+};
+
+// Headings of the filter fields in the webview
+const FILTER_LABELS: Record<SessionFilterField, string> = {
+  projects: "Project",
+  categories: "Category",
+  extensions: "File Type",
+  branches: "Branch",
+};
+
+/**
+ * Data the report webview renders, with durations already formatted
+ * Each top-level section is re-rendered only when its data changes
+ */
+interface ReportData {
+  dateRange: {
+    label: string;
+    start: string;
+    end: string;
+    activePreset?: string;
+    presets: { preset: string; label: string }[];
+  };
+  filters: {
+    field: SessionFilterField;
+    command: string;
+    label: string;
+    values: string[];
+    selected: string[];
+  }[];
+  summary: {
+    totalTime: string;
+    openTime?: string; // only set when unfocused time was recorded
+    projects: number;
+    sessions: number;
+  };
+  dailyChart: {
+    weekday: string;
+    duration: string;
+    heightPercent: number;
+  }[];
+  projects: { project: string; totalTime: string }[];
+  branches: { branch: string; project: string; totalTime: string }[];
+  tickets: { ticket: string; totalTime: string }[];
+  recentActivity: {
+    date: string;
+    totalTime: string;
+    groups: {
+      key: string; // identifies the group to keep it expanded across updates
+      label: string;
+      totalTime: string;
+      sessions: {
+        id: string;
+        day: string;
+        time: string;
+        duration: string;
+      }[];
+    }[];
+  }[];
+  refreshIntervalSeconds: number;
+}
 
 /**
  * WebviewProvider for displaying time tracking reports
@@ -15,19 +107,13 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
   private refreshTimer: NodeJS.Timeout | undefined;
   private webviewView: vscode.WebviewView | undefined;
   private disposables: vscode.Disposable[] = [];
-  private dateRange: { startDate: Date; endDate: Date };
+  private dateRange: DateRange = getPresetRange("last7Days");
+  private filter: SessionFilter = {};
 
   constructor(
     private readonly extensionUri: vscode.Uri,
     private readonly timeTracker: TimeTrackerModel,
   ) {
-    // Default to showing last 7 days
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - 6); // Last 7 days including today
-
-    this.dateRange = { startDate, endDate };
-
     // Listen for configuration changes
     this.disposables.push(
       vscode.workspace.onDidChangeConfiguration((e) => {
@@ -62,32 +148,70 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
 
     webviewView.webview.options = {
       enableScripts: true,
-      localResourceRoots: [this.extensionUri],
+      localResourceRoots: [
+        vscode.Uri.joinPath(this.extensionUri, "src", "assets"),
+      ],
     };
 
+    // The HTML is only set once; the script renders the data posted to it
     webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
 
     // Handle messages from the webview
     webviewView.webview.onDidReceiveMessage((message) => {
       switch (message.command) {
+        case "ready":
         case "refresh":
-          webviewView.webview.html = this.getHtmlForWebview(
-            webviewView.webview,
-          );
+          this.postReport();
           break;
         case "changeDateRange":
-          if (message.days) {
-            this.updateDateRange(message.days);
-            webviewView.webview.html = this.getHtmlForWebview(
-              webviewView.webview,
-            );
+          if (DATE_RANGE_PRESETS.some((p) => p.preset === message.preset)) {
+            this.dateRange = getPresetRange(message.preset);
+          } else if (message.start && message.end) {
+            this.dateRange = createCustomRange(message.start, message.end);
           }
+          this.postReport();
           break;
-        case "filterByProject":
-          // TODO: Implement filtering by project
+        case "shiftDateRange":
+          this.dateRange = shiftDateRange(
+            refreshDateRange(this.dateRange),
+            message.direction < 0 ? -1 : 1,
+          );
+          this.postReport();
           break;
+        case "export":
+          vscode.commands.executeCommand("time-tracking.export", {
+            range: refreshDateRange(this.dateRange),
+            filter: this.filter,
+          });
+          break;
+        case "editSession":
+          if (message.sessionId && message.day) {
+            this.editSession(message.sessionId, message.day);
+          }
+          break;
+        case "filterByProject":
         case "filterByCategory":
-          // TODO: Implement filtering by category
+        case "filterByExtension":
+        case "filterByBranch":
+          this.filter = {
+            ...this.filter,
+            [FILTER_COMMANDS[message.command]]: Array.isArray(message.values)
+              ? message.values.map(String)
+              : [],
+          };
+          this.postReport();
+          break;
+        case "clearFilters":
+          this.filter = {};
+          this.postReport();
+          break;
+        case "restoreFilter":
+          // The webview keeps the filter in its state, so it survives
+          // reloads of the extension
+          if (message.filter && !isFilterActive(this.filter)) {
+            this.filter = message.filter;
+            this.postReport();
+          }
           break;
       }
     });
@@ -95,9 +219,11 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     // Start auto-refresh timer
     this.startAutoRefresh();
 
-    // When the webview is hidden, stop the auto refresh
+    // When the webview is hidden, stop the auto refresh, and catch up when
+    // it is shown again
     webviewView.onDidChangeVisibility(() => {
       if (webviewView.visible) {
+        this.postReport();
         this.startAutoRefresh();
       } else {
         this.stopAutoRefresh();
@@ -107,17 +233,27 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     // When the webview is disposed, stop the auto refresh
     webviewView.onDidDispose(() => {
       this.stopAutoRefresh();
+      this.webviewView = undefined;
     });
   }
 
   /**
-   * Updates the date range for the report
+   * Opens the editor for a session shown in the report
+   * @param sessionId Id of the session
+   * @param day Day the session starts on (YYYY-MM-DD)
    */
-  private updateDateRange(days: number): void {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - (days - 1)); // Include today in count
-    this.dateRange = { startDate, endDate };
+  private async editSession(sessionId: string, day: string): Promise<void> {
+    const dayStart = getStartOfDay(day);
+    const session = this.timeTracker
+      .getSessionsInRange(dayStart, dayStart)
+      .find((s) => s.id === sessionId);
+    if (!session) {
+      vscode.window.showWarningMessage("The session no longer exists.");
+      return;
+    }
+
+    await vscode.commands.executeCommand("time-tracking.editSession", session);
+    this.postReport();
   }
 
   /**
@@ -128,19 +264,12 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     this.stopAutoRefresh();
 
     // Get the refresh interval from configuration (in seconds)
-    const config = vscode.workspace.getConfiguration("timeTracking");
-    const refreshIntervalSeconds = config.get<number>(
-      "reportRefreshInterval",
-      10,
-    );
-    const refreshInterval = refreshIntervalSeconds * 1000; // Convert to milliseconds
+    const refreshInterval = this.getRefreshIntervalSeconds() * 1000; // Convert to milliseconds
 
     // Start new timer
     this.refreshTimer = setInterval(() => {
       if (this.webviewView?.visible) {
-        this.webviewView.webview.html = this.getHtmlForWebview(
-          this.webviewView.webview,
-        );
+        this.postReport();
       }
     }, refreshInterval);
   }
@@ -156,308 +285,133 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Generates HTML for the webview
+   * Gets the auto-refresh interval in seconds from configuration
    */
-  private getHtmlForWebview(webview: vscode.Webview): string {
-    // Get sessions for the current date range
-    const sessions = this.timeTracker.getSessionsInRange(
-      this.dateRange.startDate,
-      this.dateRange.endDate,
-    );
+  private getRefreshIntervalSeconds(): number {
+    return vscode.workspace
+      .getConfiguration("timeTracking")
+      .get<number>("reportRefreshInterval", 10);
+  }
 
-    const sessionsByDay = groupSessionsByDay(sessions);
-    const sessionsByProject = groupSessionsByProject(sessions);
+  /**
+   * Sends the current report data to the webview
+   */
+  private postReport(): void {
+    this.webviewView?.webview.postMessage({
+      command: "update",
+      data: this.getReportData(),
+    });
+  }
 
-    // Get the daily stats for a visual chart
-    const dailyStats = this.timeTracker.getDailyStats(
-      this.dateRange.startDate,
-      this.dateRange.endDate,
+  /**
+   * Collects the data of the report for the current date range and filter
+   */
+  private getReportData(): ReportData {
+    // Get sessions for the current date range; preset ranges follow the
+    // current day
+    const range = refreshDateRange(this.dateRange);
+    const { startDate, endDate } = getDateRangeDates(range);
+    const rangeSessions = this.timeTracker.getSessionsInRange(
+      startDate,
+      endDate,
     );
+    const sessions = applySessionFilter(rangeSessions, this.filter);
+
+    // Time the window was unfocused only counts toward "VS Code Open"
+    const activeSessions = sessions.filter(isFocusedSession);
+    const sessionsByDay = groupSessionsByDay(activeSessions);
+    const sessionsByProject = groupSessionsByProject(activeSessions);
+
+    // Get the daily stats for a visual chart, from the filtered sessions
+    // if a filter is set
+    const dailyStats = isFilterActive(this.filter)
+      ? getDayKeysInRange(startDate, endDate).map((date) => ({
+          date,
+          duration: getFocusedDuration(sessionsByDay[date] ?? []),
+        }))
+      : this.timeTracker.getDailyStats(startDate, endDate);
 
     // Calculate total time
-    const totalTime = sessions.reduce(
+    const totalTime = getFocusedDuration(sessions);
+    const openTime = sessions.reduce(
       (sum, session) => sum + session.duration,
       0,
     );
 
-    // Get the refresh interval for display
-    const config = vscode.workspace.getConfiguration("timeTracking");
-    const refreshIntervalSeconds = config.get<number>(
-      "reportRefreshInterval",
-      10,
-    );
-
-    // Format date range for display
-    const startDateStr = this.dateRange.startDate.toLocaleDateString();
-    const endDateStr = this.dateRange.endDate.toLocaleDateString();
+    return {
+      dateRange: {
+        label: formatDateRange(range),
+        start: range.start,
+        end: range.end,
+        activePreset: range.preset ?? findMatchingPreset(range),
+        presets: DATE_RANGE_PRESETS,
+      },
+      filters: this.getFilterData(rangeSessions),
+      summary: {
+        totalTime: formatDuration(totalTime),
+        openTime: openTime !== totalTime ? formatDuration(openTime) : undefined,
+        projects: Object.keys(sessionsByProject).length,
+        sessions: activeSessions.length,
+      },
+      dailyChart: this.getDailyChartData(dailyStats),
+      projects: this.getProjectData(sessionsByProject),
+      branches: this.getBranchData(activeSessions),
+      tickets: this.getTicketData(activeSessions),
+      recentActivity: this.getRecentActivityData(
+        sessionsByDay,
+        getDateRangeLength(range),
+      ),
+      refreshIntervalSeconds: this.getRefreshIntervalSeconds(),
+    };
+  }
 
-    // Generate HTML for report
-    return `<!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Time Tracking Report</title>
-            <style>
-                body {
-                    font-family: var(--vscode-font-family);
-                    padding: 10px;
-                    color: var(--vscode-foreground);
-                }
-                .section {
-                    margin-bottom: 20px;
-                }
-                h2 {
-                    margin-bottom: 5px;
-                    border-bottom: 1px solid var(--vscode-panel-border);
-                    padding-bottom: 5px;
-                }
-                table {
-                    border-collapse: collapse;
-                    width: 100%;
-                }
-                th, td {
-                    text-align: left;
-                    padding: 6px;
-                    border-bottom: 1px solid var(--vscode-panel-border);
-                }
-                .summary {
-                    display: flex;
-                    justify-content: space-between;
-                    padding: 10px;
-                    background-color: var(--vscode-editor-background);
-                    border-radius: 4px;
-                    margin-bottom: 15px;
-                }
-                .summary div {
-                    display: flex;
-                    flex-direction: column;
-                    align-items: center;
-                }
-                .summary-value {
-                    font-size: 18px;
-                    font-weight: bold;
-                }
-                .summary-label {
-                    font-size: 12px;
-                    opacity: 0.7;
-                }
-                button {
-                    background-color: var(--vscode-button-background);
-                    color: var(--vscode-button-foreground);
-                    border: none;
-                    padding: 6px 10px;
-                    border-radius: 2px;
-                    cursor: pointer;
-                    margin: 0 5px;
-                }
-                button:hover {
-                    background-color: var(--vscode-button-hoverBackground);
-                }
-                .no-data {
-                    text-align: center;
-                    padding: 20px;
-                    font-style: italic;
-                    opacity: 0.7;
-                }
-                .auto-refresh-info {
-                    text-align: center;
-                    font-size: 12px;
-                    opacity: 0.7;
-                    margin-top: 5px;
-                }
-                details {
-                    margin: 0;
-                    border: none;
-                }
-                summary {
-                    display: flex;
-                    justify-content: space-between;
-                    align-items: center;
-                    padding: 8px;
-                    cursor: pointer;
-                    background-color: var(--vscode-list-activeSelectionBackground);
-                    color: var(--vscode-list-activeSelectionForeground);
-                    border-radius: 3px;
-                    transition: background-color 0.2s;
-                }
-                summary:hover {
-                    background-color: var(--vscode-list-hoverBackground);
-                }
-                details[open] > summary {
-                    border-bottom-left-radius: 0;
-                    border-bottom-right-radius: 0;
-                }
-                details > table {
-                    border-top: none;
-                    border-top-left-radius: 0;
-                    border-top-right-radius: 0;
-                    background-color: var(--vscode-editor-inactiveSelectionBackground);
-                }
-                .date-range {
-                    text-align: center;
-                    margin-bottom: 15px;
-                }
-                .date-range-selector {
-                    display: flex;
-                    justify-content: center;
-                    margin-top: 10px;
-                }
-                .date-range-selector button.active {
-                    background-color: var(--vscode-button-secondaryBackground);
-                    color: var(--vscode-button-secondaryForeground);
-                }
-                .chart {
-                    height: 100px;
-                    display: flex;
-                    align-items: flex-end;
-                    margin-top: 15px;
-                    margin-bottom: 15px;
-                }
-                .chart-bar {
-                    flex: 1;
-                    margin: 0 1px;
-                    background-color: var(--vscode-charts-blue);
-                    position: relative;
-                    min-height: 1px;
-                }
-                .chart-label {
-                    text-align: center;
-                    font-size: 10px;
-                    margin-top: 5px;
-                    white-space: nowrap;
-                    overflow: hidden;
-                    text-overflow: ellipsis;
-                }
-            </style>
-        </head>
-        <body>
-            <div class="section">
-                <h2>Time Tracking Summary</h2>
-                <div class="date-range">
-                    <div>Date Range: ${startDateStr} - ${endDateStr}</div>
-                    <div class="date-range-selector">
-                        <button id="day1" class="${this.dateRange.endDate.getDate() - this.dateRange.startDate.getDate() + 1 === 1 ? "active" : ""}">Today</button>
-                        <button id="day7" class="${this.dateRange.endDate.getDate() - this.dateRange.startDate.getDate() + 1 === 7 ? "active" : ""}">Week</button>
-                        <button id="day14" class="${this.dateRange.endDate.getDate() - this.dateRange.startDate.getDate() + 1 === 14 ? "active" : ""}">2 Weeks</button>
-                        <button id="day30" class="${this.dateRange.endDate.getDate() - this.dateRange.startDate.getDate() + 1 === 30 ? "active" : ""}">Month</button>
-                    </div>
-                </div>
-                
-                <div class="summary">
-                    <div>
-                        <span class="summary-value">${formatDuration(totalTime)}</span>
-                        <span class="summary-label">Total Time</span>
-                    </div>
-                    <div>
-                        <span class="summary-value">${Object.keys(sessionsByProject).length}</span>
-                        <span class="summary-label">Projects</span>
-                    </div>
-                    <div>
-                        <span class="summary-value">${sessions.length}</span>
-                        <span class="summary-label">Sessions</span>
-                    </div>
-                </div>
-                
-                <!-- Daily activity chart -->
-                <div class="chart">
-                    ${this.renderDailyChart(dailyStats)}
-                </div>
-            </div>
-            
-            <div class="section">
-                <h2>Time By Project</h2>
-                ${this.renderProjectTable(sessionsByProject)}
-            </div>
-            
-            <div class="section">
-                <h2>Recent Activity</h2>
-                ${this.renderRecentActivity(sessionsByDay)}
-            </div>
-            
-            <div style="text-align: center; margin-top: 20px;">
-                <button id="refreshButton">Refresh Data</button>
-                <div class="auto-refresh-info">Auto-refreshes every ${refreshIntervalSeconds} seconds</div>
-            </div>
-            
-            <script>
-                const vscode = acquireVsCodeApi();
-                document.getElementById('refreshButton').addEventListener('click', () => {
-                    vscode.postMessage({ command: 'refresh' });
-                });
-                
-                // Add toggle behavior for all details elements
-                document.querySelectorAll('details').forEach(details => {
-                    details.addEventListener('toggle', () => {
-                        // Persist the open state if needed in the future
-                    });
-                });
-                
-                // Date range selector buttons
-                document.getElementById('day1').addEventListener('click', () => {
-                    vscode.postMessage({ command: 'changeDateRange', days: 1 });
-                });
-                document.getElementById('day7').addEventListener('click', () => {
-                    vscode.postMessage({ command: 'changeDateRange', days: 7 });
-                });
-                document.getElementById('day14').addEventListener('click', () => {
-                    vscode.postMessage({ command: 'changeDateRange', days: 14 });
-                });
-                document.getElementById('day30').addEventListener('click', () => {
-                    vscode.postMessage({ command: 'changeDateRange', days: 30 });
-                });
-            </script>
-        </body>
-        </html>`;
+  /**
+   * Gets the multi-select filters, offering the values that occur in the
+   * date range as well as the selected ones
+   */
+  private getFilterData(sessions: TimeSession[]): ReportData["filters"] {
+    const options = getFilterOptions(sessions);
+
+    return Object.entries(FILTER_COMMANDS)
+      .map(([command, field]) => {
+        const selected = this.filter[field] ?? [];
+        return {
+          field,
+          command,
+          label: FILTER_LABELS[field],
+          values: [...new Set([...options[field], ...selected])],
+          selected,
+        };
+      })
+      .filter((filter) => filter.values.length > 0);
   }
 
   /**
-   * Renders a chart of daily activity
+   * Gets the bars of the daily activity chart
    */
-  private renderDailyChart(
+  private getDailyChartData(
     dailyStats: { date: string; duration: number }[],
-  ): string {
-    if (dailyStats.length === 0) {
-      return "";
-    }
-
+  ): ReportData["dailyChart"] {
     // Find maximum duration for scaling
-    const maxDuration = Math.max(...dailyStats.map((stat) => stat.duration));
-
-    let chartHtml = "";
+    const maxDuration = Math.max(0, ...dailyStats.map((stat) => stat.duration));
 
-    dailyStats.forEach((day) => {
+    return dailyStats.map((day) => ({
+      // Get day of week abbreviation
+      weekday: formatWeekday(day.date),
+      duration: formatDuration(day.duration),
       // Calculate percentage height (minimum 1%)
-      const heightPercent = maxDuration
+      heightPercent: maxDuration
         ? Math.max(1, Math.round((day.duration / maxDuration) * 100))
-        : 1;
-
-      // Get day of week abbreviation
-      const dayOfWeek = new Date(day.date).toLocaleDateString(undefined, {
-        weekday: "short",
-      });
-
-      chartHtml += `
-        <div style="display: flex; flex-direction: column; flex: 1;">
-          <div class="chart-bar" style="height: ${heightPercent}%" title="${formatDuration(day.duration)}"></div>
-          <div class="chart-label">${dayOfWeek}</div>
-        </div>
-      `;
-    });
-
-    return chartHtml;
+        : 1,
+    }));
   }
 
   /**
-   * Renders the project time table
+   * Gets the rows of the project time table
    */
-  private renderProjectTable(
+  private getProjectData(
     sessionsByProject: Record<string, TimeSession[]>,
-  ): string {
-    if (Object.keys(sessionsByProject).length === 0) {
-      return '<div class="no-data">No project data available for this period</div>';
-    }
-
+  ): ReportData["projects"] {
     // Calculate total time for each project
     const projectTimes = Object.entries(sessionsByProject).map(
       ([project, sessions]) => {
@@ -472,158 +426,202 @@ export class ReportViewProvider implements vscode.WebviewViewProvider {
     // Sort by most time spent
     projectTimes.sort((a, b) => b.totalTime - a.totalTime);
 
-    let tableHtml = `
-            <table>
-                <thead>
-                    <tr>
-                        <th>Project</th>
-                        <th>Total Time</th>
-                    </tr>
-                </thead>
-                <tbody>
-        `;
-
-    projectTimes.forEach(({ project, totalTime }) => {
-      tableHtml += `
-                <tr>
-                    <td>${project}</td>
-                    <td>${formatDuration(totalTime)}</td>
-                </tr>
-            `;
-    });
-
-    tableHtml += `
-                </tbody>
-            </table>
-        `;
-
-    return tableHtml;
+    return projectTimes.map(({ project, totalTime }) => ({
+      project,
+      totalTime: formatDuration(totalTime),
+    }));
   }
 
   /**
-   * Renders recent activity
+   * Gets the rows of the branch time table, one row per project and branch
    */
-  private renderRecentActivity(
-    sessionsByDay: Record<string, TimeSession[]>,
-  ): string {
-    if (Object.keys(sessionsByDay).length === 0) {
-      return '<div class="no-data">No activity data available for this period</div>';
+  private getBranchData(sessions: TimeSession[]): ReportData["branches"] {
+    const branchTimes = new Map<
+      string,
+      { project: string; branch: string; totalTime: number }
+    >();
+
+    for (const session of sessions.filter((s) => s.repositoryRoot)) {
+      const project = session.project || "No Project";
+      const branch = session.branch || "(detached HEAD)";
+      const key = `${project}\n${branch}`;
+      const entry = branchTimes.get(key) ?? { project, branch, totalTime: 0 };
+      entry.totalTime += session.duration;
+      branchTimes.set(key, entry);
     }
 
-    // Get dates sorted in descending order
-    const dates = Object.keys(sessionsByDay).sort().reverse();
-
-    let activityHtml = "";
+    // Sort by most time spent
+    return [...branchTimes.values()]
+      .sort((a, b) => b.totalTime - a.totalTime)
+      .map(({ project, branch, totalTime }) => ({
+        branch,
+        project,
+        totalTime: formatDuration(totalTime),
+      }));
+  }
 
-    // Show up to the maximum number of days in our date range
-    const daysToShow = Math.min(
-      dates.length,
-      Math.floor(
-        (this.dateRange.endDate.getTime() -
-          this.dateRange.startDate.getTime()) /
-          (24 * 60 * 60 * 1000),
-      ) + 1,
-    );
+  /**
+   * Gets the rows of the ticket time table
+   */
+  private getTicketData(sessions: TimeSession[]): ReportData["tickets"] {
+    const ticketTimes = new Map<string, number>();
+    for (const session of sessions) {
+      if (session.ticket) {
+        ticketTimes.set(
+          session.ticket,
+          (ticketTimes.get(session.ticket) ?? 0) + session.duration,
+        );
+      }
+    }
 
-    const recentDates = dates.slice(0, daysToShow);
+    // Sort by most time spent
+    return [...ticketTimes.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([ticket, totalTime]) => ({
+        ticket,
+        totalTime: formatDuration(totalTime),
+      }));
+  }
 
-    recentDates.forEach((date) => {
+  /**
+   * Gets the recent activity, grouped by day and by project and file
+   * @param daysInRange Number of days in the date range
+   */
+  private getRecentActivityData(
+    sessionsByDay: Record<string, TimeSession[]>,
+    daysInRange: number,
+  ): ReportData["recentActivity"] {
+    // Get dates sorted in descending order, up to the number of days in
+    // our date range
+    const recentDates = Object.keys(sessionsByDay)
+      .sort()
+      .reverse()
+      .slice(0, daysInRange);
+
+    return recentDates.map((date) => {
       const sessions = sessionsByDay[date];
       const totalTime = sessions.reduce(
         (sum, session) => sum + session.duration,
         0,
       );
 
-      activityHtml += `
-                <div style="margin-bottom: 10px;">
-                    <h3 style="margin-bottom: 5px;">${date} - ${formatDuration(totalTime)}</h3>
-                    <table>
-                        <thead>
-                            <tr>
-                                <th>Project / File</th>
-                                <th>Duration</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-            `;
-
       // Group sessions by project and file path (but display only project and filename)
-      const projectFileGroups: Record<string, TimeSession[]> = {};
+      const projectFileGroups = new Map<string, TimeSession[]>();
       sessions.forEach((session) => {
         // Create a unique key combining project and filePath (for grouping)
         const groupKey = `${session.project}:${session.filePath}`;
-        if (!projectFileGroups[groupKey]) {
-          projectFileGroups[groupKey] = [];
-        }
-        projectFileGroups[groupKey].push(session);
+        projectFileGroups.set(groupKey, [
+          ...(projectFileGroups.get(groupKey) ?? []),
+          session,
+        ]);
       });
 
       // Sort groups by total duration (descending)
-      const sortedGroups = Object.entries(projectFileGroups)
+      const groups = [...projectFileGroups.entries()]
         .map(([groupKey, groupSessions]) => {
-          const [project, filePath] = groupKey.split(":", 2); // Split only first colon to handle file paths with colons
-          const fileName = filePath.split(/[\\/]/).pop() || "Untitled"; // Extract just the file name for display
+          const { project, filePath } = groupSessions[0];
+          const fileName =
+            filePath.split(/[\\/]/).pop() ||
+            groupSessions[0].fileName ||
+            "Untitled"; // Extract just the file name for display, manual entries have no path
 
           const totalDuration = groupSessions.reduce(
             (sum, session) => sum + session.duration,
             0,
           );
 
-          return { project, fileName, filePath, groupSessions, totalDuration };
+          return { groupKey, project, fileName, groupSessions, totalDuration };
         })
         .sort((a, b) => b.totalDuration - a.totalDuration);
 
-      sortedGroups.forEach(
-        ({ project, fileName, filePath, groupSessions, totalDuration }) => {
-          activityHtml += `
-          <tr>
-            <td colspan="2" style="padding: 0">
-              <details>
-                <summary style="padding: 6px; display: flex; justify-content: space-between; cursor: pointer;">
-                  <span>${project} / ${fileName}</span>
-                  <strong>${formatDuration(totalDuration)}</strong>
-                </summary>
-                <table style="width: 100%; margin: 0; background-color: var(--vscode-editor-inactiveSelectionBackground);">
-                  <tbody>
-        `;
-
-          // Sort sessions by duration (descending)
-          const sortedSessions = [...groupSessions].sort(
-            (a, b) => b.duration - a.duration,
-          );
-
-          sortedSessions.forEach((session) => {
-            // Format the start time to show in the details
-            const startTime = new Date(session.startTime).toLocaleTimeString();
-            const endTimeStr = session.endTime
-              ? new Date(session.endTime).toLocaleTimeString()
-              : "ongoing";
-
-            activityHtml += `
-            <tr>
-              <td style="width: 70%">${startTime} - ${endTimeStr}</td>
-              <td style="width: 30%">${formatDuration(session.duration)}</td>
-            </tr>
-          `;
-          });
-
-          activityHtml += `
-                  </tbody>
-                </table>
-              </details>
-            </td>
-          </tr>
-        `;
-        },
-      );
-
-      activityHtml += `
-                        </tbody>
-                    </table>
-                </div>
-            `;
+      return {
+        date,
+        totalTime: formatDuration(totalTime),
+        groups: groups.map(
+          ({ groupKey, project, fileName, groupSessions, totalDuration }) => ({
+            key: `${date}:${groupKey}`,
+            label: `${project} / ${fileName}`,
+            totalTime: formatDuration(totalDuration),
+            // Sort sessions by duration (descending)
+            sessions: [...groupSessions]
+              .sort((a, b) => b.duration - a.duration)
+              .map((session) => ({
+                id: session.id,
+                day: formatDate(session.startTime),
+                time: `${session.startTime.toLocaleTimeString()} - ${
+                  session.endTime
+                    ? session.endTime.toLocaleTimeString()
+                    : "ongoing"
+                }`,
+                duration: formatDuration(session.duration),
+              })),
+          }),
+        ),
+      };
     });
+  }
+
+  /**
+   * Generates the HTML shell of the webview; the report itself is rendered
+   * by the script from the data posted by postReport
+   */
+  private getHtmlForWebview(webview: vscode.Webview): string {
+    const assetsUri = vscode.Uri.joinPath(this.extensionUri, "src", "assets");
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(assetsUri, "reportView.js"),
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(assetsUri, "reportView.css"),
+    );
+    const nonce = getNonce();
 
-    return activityHtml;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link href="${styleUri}" rel="stylesheet">
+  <title>Time Tracking Report</title>
+</head>
+<body>
+  <div class="section">
+    <h2>Time Tracking Summary</h2>
+    <div id="date-range" class="date-range"></div>
+    <div id="filters" class="filters"></div>
+    <div id="summary" class="summary"></div>
+    <!-- Daily activity chart -->
+    <div id="daily-chart" class="chart"></div>
+  </div>
+
+  <div class="section">
+    <h2>Time By Project</h2>
+    <div id="projects"></div>
+  </div>
+
+  <div class="section">
+    <h2>Time By Branch</h2>
+    <div id="branches"></div>
+  </div>
+
+  <div class="section">
+    <h2>Time By Ticket</h2>
+    <div id="tickets"></div>
+  </div>
+
+  <div class="section">
+    <h2>Recent Activity</h2>
+    <div id="recent-activity"></div>
+  </div>
+
+  <div class="footer">
+    <button id="refreshButton">Refresh Data</button>
+    <button id="exportButton">Export...</button>
+    <div id="refresh-info" class="auto-refresh-info"></div>
+  </div>
+
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
   }
 }
@@ -0,0 +1,413 @@
+import * as vscode from "vscode";
+import {
+  SESSION_CATEGORIES,
+  type TimeSession,
+  type TimeTrackerModel,
+} from "../models/timeTracker";
+import {
+  addDays,
+  formatDate,
+  formatDuration,
+  formatTime,
+  getTimeOnDay,
+} from "../utils/timeUtils";
+
+// Days of sessions offered when picking a session to change
+const PICKER_DAYS = 14;
+
+/**
+ * Quick pick item for a saved session
+ */
+interface SessionPickItem extends vscode.QuickPickItem {
+  session: TimeSession;
+}
+
+/**
+ * Formats a date as "YYYY-MM-DD HH:MM" in the day bucketing time zone
+ */
+function formatDateTime(date: Date): string {
+  return `${formatDate(date)} ${formatTime(date)}`;
+}
+
+/**
+ * Parses a "YYYY-MM-DD HH:MM" date and time in the day bucketing time zone
+ * @returns The date, or undefined if the value is not in that format
+ */
+function parseDateTime(value: string): Date | undefined {
+  const match = value
+    .trim()
+    .match(/^(\d{4}-\d{2}-\d{2})\s+([01]?\d|2[0-3]):([0-5]\d)$/);
+  return match
+    ? getTimeOnDay(match[1], Number(match[2]), Number(match[3]))
+    : undefined;
+}
+
+/**
+ * Asks for a date and time
+ * @returns The date, or undefined if the user cancelled
+ */
+async function promptDateTime(
+  prompt: string,
+  value: Date,
+  validate?: (date: Date) => string | undefined,
+): Promise<Date | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt,
+    placeHolder: "YYYY-MM-DD HH:MM",
+    value: formatDateTime(value),
+    validateInput: (text) => {
+      const date = parseDateTime(text);
+      if (!date) {
+        return "Enter a date and time as YYYY-MM-DD HH:MM";
+      }
+      return validate?.(date);
+    },
+  });
+  return input !== undefined ? parseDateTime(input) : undefined;
+}
+
+/**
+ * Asks for a project, offering the projects of recent sessions
+ * @returns The project, or undefined if the user cancelled
+ */
+export async function promptProject(
+  timeTracker: TimeTrackerModel,
+  current?: string,
+): Promise<string | undefined> {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(endDate.getDate() - 30);
+
+  const otherProject = "Other project...";
+  const projects = [
+    ...new Set(
+      timeTracker
+        .getSessionsInRange(startDate, endDate)
+        .map((session) => session.project),
+    ),
+  ];
+
+  const project = await vscode.window.showQuickPick(
+    projects.concat(otherProject),
+    { placeHolder: current ? `Project (current: ${current})` : "Project" },
+  );
+  if (project === otherProject) {
+    return vscode.window.showInputBox({ prompt: "Enter the project name" });
+  }
+  return project;
+}
+
+/**
+ * Asks for an optional category
+ * @returns The category ("" for none), or undefined if the user cancelled
+ */
+async function promptCategory(): Promise<string | undefined> {
+  const noCategory = "No category";
+  const category = await vscode.window.showQuickPick(
+    [noCategory, ...SESSION_CATEGORIES],
+    { placeHolder: "Select a category" },
+  );
+  return category === noCategory ? "" : category;
+}
+
+/**
+ * Lets the user pick one of the sessions saved in the last days
+ * @returns The session, or undefined if the user cancelled
+ */
+export async function pickSession(
+  timeTracker: TimeTrackerModel,
+  placeHolder: string,
+): Promise<TimeSession | undefined> {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setDate(endDate.getDate() - (PICKER_DAYS - 1));
+
+  const items: SessionPickItem[] = timeTracker
+    .getSessionsInRange(startDate, endDate)
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+    .map((session) => ({
+      label: `${formatDateTime(session.startTime)} - ${session.endTime ? formatTime(session.endTime) : "?"}`,
+      description: `${session.project} · ${session.fileName}`,
+      detail: [
+        formatDuration(session.duration),
+        session.category,
+        session.ticket,
+        session.notes,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      session,
+    }));
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage(
+      `No sessions saved in the last ${PICKER_DAYS} days.`,
+    );
+    return undefined;
+  }
+
+  const item = await vscode.window.showQuickPick(items, {
+    placeHolder,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  return item?.session;
+}
+
+/**
+ * Asks for the details of a manual time entry and saves it
+ */
+export async function addManualEntry(
+  timeTracker: TimeTrackerModel,
+): Promise<void> {
+  const project = await promptProject(timeTracker);
+  if (!project) {
+    return;
+  }
+
+  const day = await vscode.window.showInputBox({
+    prompt: "Day of the entry",
+    placeHolder: "YYYY-MM-DD",
+    value: formatDate(new Date()),
+    validateInput: (text) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(text.trim())
+        ? undefined
+        : "Enter a day as YYYY-MM-DD",
+  });
+  if (!day) {
+    return;
+  }
+
+  const timePattern = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+  const validateTime = (text: string) =>
+    timePattern.test(text.trim()) ? undefined : "Enter a time as HH:MM";
+
+  const start = await vscode.window.showInputBox({
+    prompt: "Start time",
+    placeHolder: "HH:MM",
+    validateInput: validateTime,
+  });
+  if (!start) {
+    return;
+  }
+  const end = await vscode.window.showInputBox({
+    prompt: "End time (an end before the start is on the next day)",
+    placeHolder: "HH:MM",
+    validateInput: validateTime,
+  });
+  if (!end) {
+    return;
+  }
+
+  const category = await promptCategory();
+  if (category === undefined) {
+    return;
+  }
+  const notes = await vscode.window.showInputBox({
+    prompt: "Notes (optional)",
+  });
+  if (notes === undefined) {
+    return;
+  }
+
+  const [startHour, startMinute] = start.trim().split(":").map(Number);
+  const [endHour, endMinute] = end.trim().split(":").map(Number);
+  const startTime = getTimeOnDay(day.trim(), startHour, startMinute);
+  let endTime = getTimeOnDay(day.trim(), endHour, endMinute);
+  if (endTime.getTime() <= startTime.getTime()) {
+    endTime = getTimeOnDay(addDays(day.trim(), 1), endHour, endMinute);
+  }
+
+  const saved = timeTracker.addManualSession({
+    project,
+    startTime,
+    endTime,
+    category: category || undefined,
+    notes: notes || undefined,
+  });
+  if (!saved) {
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Added ${formatDuration(endTime.getTime() - startTime.getTime())} to ${project}.`,
+  );
+}
+
+/**
+ * Lets the user change the fields of a saved session and saves it
+ * @param session Session to edit, picked by the user if not given
+ */
+export async function editSession(
+  timeTracker: TimeTrackerModel,
+  session?: TimeSession,
+): Promise<void> {
+  const original =
+    session ?? (await pickSession(timeTracker, "Select a session to edit"));
+  if (!original) {
+    return;
+  }
+
+  const draft: TimeSession = { ...original };
+  const endTime = () => draft.endTime ?? draft.startTime;
+
+  while (true) {
+    const field = await vscode.window.showQuickPick(
+      [
+        { label: "Start", description: formatDateTime(draft.startTime) },
+        { label: "End", description: formatDateTime(endTime()) },
+        { label: "Project", description: draft.project },
+        { label: "Category", description: draft.category },
+        { label: "Notes", description: draft.notes },
+        { label: "Ticket", description: draft.ticket },
+        { label: "$(check) Save" },
+      ],
+      { placeHolder: "Select a field to change, or save the session" },
+    );
+
+    switch (field?.label) {
+      case undefined:
+        return;
+      case "Start": {
+        const startTime = await promptDateTime(
+          "Start of the session",
+          draft.startTime,
+          (date) =>
+            date.getTime() < endTime().getTime()
+              ? undefined
+              : "The start must be before the end",
+        );
+        draft.startTime = startTime ?? draft.startTime;
+        break;
+      }
+      case "End": {
+        const end = await promptDateTime(
+          "End of the session",
+          endTime(),
+          (date) =>
+            date.getTime() > draft.startTime.getTime()
+              ? undefined
+              : "The end must be after the start",
+        );
+        draft.endTime = end ?? draft.endTime;
+        break;
+      }
+      case "Project":
+        draft.project =
+          (await promptProject(timeTracker, draft.project)) ?? draft.project;
+        break;
+      case "Category": {
+        const category = await promptCategory();
+        if (category !== undefined) {
+          draft.category = category || undefined;
+        }
+        break;
+      }
+      case "Notes": {
+        const notes = await vscode.window.showInputBox({
+          prompt: "Notes",
+          value: draft.notes,
+        });
+        if (notes !== undefined) {
+          draft.notes = notes || undefined;
+        }
+        break;
+      }
+      case "Ticket": {
+        const ticket = await vscode.window.showInputBox({
+          prompt: "Ticket",
+          placeHolder: "e.g. ABC-123",
+          value: draft.ticket,
+        });
+        if (ticket !== undefined) {
+          draft.ticket = ticket.trim() || undefined;
+        }
+        break;
+      }
+      default:
+        try {
+          timeTracker.updateSession(original, draft);
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to update session: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          return;
+        }
+        vscode.window.showInformationMessage("Session updated.");
+        return;
+    }
+  }
+}
+
+/**
+ * Deletes a saved session after confirmation
+ * @param session Session to delete, picked by the user if not given
+ */
+export async function deleteSession(
+  timeTracker: TimeTrackerModel,
+  session?: TimeSession,
+): Promise<void> {
+  const target =
+    session ?? (await pickSession(timeTracker, "Select a session to delete"));
+  if (!target) {
+    return;
+  }
+
+  const confirmation = await vscode.window.showWarningMessage(
+    `Delete the session of ${formatDuration(target.duration)} in ${target.project} from ${formatDateTime(target.startTime)}?`,
+    { modal: true },
+    "Delete",
+  );
+  if (confirmation !== "Delete") {
+    return;
+  }
+
+  try {
+    timeTracker.deleteSession(target);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to delete session: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+  vscode.window.showInformationMessage("Session deleted.");
+}
+
+/**
+ * Splits a saved session into two at a time chosen by the user
+ * @param session Session to split, picked by the user if not given
+ */
+export async function splitSession(
+  timeTracker: TimeTrackerModel,
+  session?: TimeSession,
+): Promise<void> {
+  const target =
+    session ?? (await pickSession(timeTracker, "Select a session to split"));
+  if (!target?.endTime) {
+    return;
+  }
+
+  const start = target.startTime.getTime();
+  const end = target.endTime.getTime();
+  const at = await promptDateTime(
+    "Time to split the session at",
+    new Date(start + Math.floor((end - start) / 2)),
+    (date) =>
+      date.getTime() > start && date.getTime() < end
+        ? undefined
+        : `Enter a time between ${formatDateTime(target.startTime)} and ${formatDateTime(target.endTime as Date)}`,
+  );
+
+  if (!at) {
+    return;
+  }
+
+  try {
+    timeTracker.splitSession(target, at);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to split session: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+  vscode.window.showInformationMessage("Session split.");
+}
@@ -74,6 +74,11 @@ export class StatusBarController {
         this.statusBarItem.tooltip = `Tracking time for ${currentSession.fileName} in ${currentSession.project}`;
         this.statusBarItem.command = "time-tracking.stopTracking";
       }
+    } else if (this.timeTracker.isPaused()) {
+      this.statusBarItem.text = "$(debug-pause) Time Tracking Paused";
+      this.statusBarItem.tooltip =
+        "Tracking is paused while you are idle and resumes when you return";
+      this.statusBarItem.command = "time-tracking.startTracking";
     } else {
       this.statusBarItem.text = `$(play) Start Time Tracking`;
       this.statusBarItem.tooltip = "Start tracking time for the current file";
@@ -0,0 +1,376 @@
+import * as vscode from "vscode";
+import type { TimeSession, TimeTrackerModel } from "../models/timeTracker";
+import {
+  addDays,
+  formatDate,
+  formatDuration,
+  getStartOfDay,
+  getTimeOnDay,
+} from "../utils/timeUtils";
+import { getNonce } from "../utils/webviewUtils";
+import { promptProject } from "./sessionEditor";
+
+/**
+ * Session as sent to the timeline webview, with times in milliseconds
+ */
+interface TimelineSession {
+  id: string;
+  start: number;
+  end: number;
+  project: string;
+  category?: string;
+  fileName: string;
+  notes?: string;
+  ticket?: string;
+  focused: boolean;
+  current: boolean; // the session being tracked, which can't be edited
+}
+
+/**
+ * Editor panel showing the sessions of a day on a timeline, where session
+ * edges can be dragged and sessions merged or gaps filled
+ */
+export class TimelinePanel {
+  public static readonly viewType = "timeTracking.timeline";
+  private static currentPanel: TimelinePanel | undefined;
+  private day = formatDate(new Date());
+  private disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly extensionUri: vscode.Uri,
+    private readonly timeTracker: TimeTrackerModel,
+  ) {
+    this.panel.webview.html = this.getHtmlForWebview(this.panel.webview);
+
+    this.disposables.push(
+      this.panel.webview.onDidReceiveMessage((message) =>
+        this.handleMessage(message),
+      ),
+      // Sessions may have changed while the panel was in the background
+      this.panel.onDidChangeViewState(() => {
+        if (this.panel.visible) {
+          this.postDay();
+        }
+      }),
+      this.panel.onDidDispose(() => this.dispose()),
+    );
+  }
+
+  /**
+   * Shows the timeline panel, creating it if it isn't open yet
+   */
+  public static show(
+    extensionUri: vscode.Uri,
+    timeTracker: TimeTrackerModel,
+  ): void {
+    if (TimelinePanel.currentPanel) {
+      TimelinePanel.currentPanel.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      TimelinePanel.viewType,
+      "Time Tracking Timeline",
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        localResourceRoots: [
+          vscode.Uri.joinPath(extensionUri, "src", "assets"),
+        ],
+      },
+    );
+
+    TimelinePanel.currentPanel = new TimelinePanel(
+      panel,
+      extensionUri,
+      timeTracker,
+    );
+  }
+
+  /**
+   * Disposes the panel and its listeners
+   */
+  public dispose(): void {
+    TimelinePanel.currentPanel = undefined;
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+    this.panel.dispose();
+  }
+
+  /**
+   * Handles a message from the webview
+   */
+  private async handleMessage(message: {
+    command: string;
+    [key: string]: unknown;
+  }): Promise<void> {
+    try {
+      switch (message.command) {
+        case "ready":
+          break;
+        case "changeDay":
+          this.day =
+            typeof message.offset === "number" && message.offset !== 0
+              ? addDays(this.day, message.offset)
+              : formatDate(new Date());
+          break;
+        case "updateSession":
+          this.resizeSession(
+            String(message.id),
+            Number(message.start),
+            Number(message.end),
+          );
+          break;
+        case "mergeSessions":
+          this.mergeSessions(String(message.firstId), String(message.secondId));
+          break;
+        case "fillGap":
+          await this.fillGap(
+            Number(message.start),
+            Number(message.end),
+            message.previousId as string | undefined,
+            message.nextId as string | undefined,
+          );
+          break;
+        case "editSession": {
+          const session = this.findSession(String(message.id));
+          if (session) {
+            await vscode.commands.executeCommand(
+              "time-tracking.editSession",
+              session,
+            );
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to update the timeline: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    this.postDay();
+  }
+
+  /**
+   * Gets the saved sessions of the shown day, sorted by start time
+   */
+  private getSavedSessions(): TimeSession[] {
+    const dayStart = getStartOfDay(this.day);
+    return this.timeTracker
+      .getSessionsInRange(dayStart, dayStart)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Finds a saved session of the shown day
+   */
+  private findSession(id: string): TimeSession | undefined {
+    const session = this.getSavedSessions().find((s) => s.id === id);
+    if (!session) {
+      vscode.window.showWarningMessage("The session no longer exists.");
+    }
+    return session;
+  }
+
+  /**
+   * Moves the start and end of a session dragged on the timeline
+   */
+  private resizeSession(id: string, start: number, end: number): void {
+    const session = this.findSession(id);
+    if (!session || !(start < end)) {
+      return;
+    }
+
+    this.timeTracker.updateSession(session, {
+      ...session,
+      startTime: new Date(start),
+      endTime: new Date(end),
+    });
+  }
+
+  /**
+   * Merges a session into the session before it
+   */
+  private mergeSessions(firstId: string, secondId: string): void {
+    const first = this.findSession(firstId);
+    const second = first && this.findSession(secondId);
+    if (first && second) {
+      this.timeTracker.mergeSessions(first, second);
+    }
+  }
+
+  /**
+   * Fills the gap between two sessions by extending one of them or by
+   * adding a manual entry
+   * @param start Start of the gap in milliseconds
+   * @param end End of the gap in milliseconds
+   * @param previousId Id of the session before the gap, if any
+   * @param nextId Id of the session after the gap, if any
+   */
+  private async fillGap(
+    start: number,
+    end: number,
+    previousId?: string,
+    nextId?: string,
+  ): Promise<void> {
+    const previous = previousId ? this.findSession(previousId) : undefined;
+    const next = nextId ? this.findSession(nextId) : undefined;
+
+    const items: vscode.QuickPickItem[] = [];
+    if (previous) {
+      items.push({
+        label: "Extend previous session",
+        description: previous.project,
+      });
+    }
+    if (next) {
+      items.push({ label: "Extend next session", description: next.project });
+    }
+    items.push({ label: "Add manual entry" });
+
+    const choice = await vscode.window.showQuickPick(items, {
+      placeHolder: `Fill the gap of ${formatDuration(end - start)}`,
+    });
+
+    switch (choice?.label) {
+      case "Extend previous session":
+        if (previous) {
+          this.timeTracker.updateSession(previous, {
+            ...previous,
+            endTime: new Date(end),
+          });
+        }
+        break;
+      case "Extend next session":
+        if (next) {
+          this.timeTracker.updateSession(next, {
+            ...next,
+            startTime: new Date(start),
+          });
+        }
+        break;
+      case "Add manual entry": {
+        const project = await promptProject(
+          this.timeTracker,
+          previous?.project ?? next?.project,
+        );
+        if (project) {
+          this.timeTracker.addManualSession({
+            project,
+            startTime: new Date(start),
+            endTime: new Date(end),
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Sends the sessions of the shown day to the webview
+   */
+  private postDay(): void {
+    const sessions: TimelineSession[] = this.getSavedSessions().map((session) =>
+      this.toTimelineSession(session, false),
+    );
+
+    // Show the session being tracked, as far as it lies on the shown day
+    const current = this.timeTracker.getCurrentSession();
+    if (current && formatDate(new Date()) === this.day) {
+      sessions.push({
+        ...this.toTimelineSession(current, true),
+        start: Math.max(
+          current.startTime.getTime(),
+          getStartOfDay(this.day).getTime(),
+        ),
+        end: Date.now(),
+      });
+    }
+
+    this.panel.webview.postMessage({
+      command: "showDay",
+      day: this.day,
+      isToday: formatDate(new Date()) === this.day,
+      dayStart: getStartOfDay(this.day).getTime(),
+      dayEnd: getStartOfDay(addDays(this.day, 1)).getTime(),
+      // Hours are sent as moments, as days in the bucketing time zone
+      // can be 23 or 25 hours long
+      hours: Array.from({ length: 24 }, (_, hour) =>
+        getTimeOnDay(this.day, hour, 0).getTime(),
+      ),
+      sessions,
+    });
+  }
+
+  /**
+   * Converts a session to the form the webview renders
+   */
+  private toTimelineSession(
+    session: TimeSession,
+    current: boolean,
+  ): TimelineSession {
+    return {
+      id: session.id,
+      start: session.startTime.getTime(),
+      end: (session.endTime ?? session.startTime).getTime(),
+      project: session.project,
+      category: session.category,
+      fileName: session.fileName,
+      notes: session.notes,
+      ticket: session.ticket,
+      focused: session.focused !== false,
+      current,
+    };
+  }
+
+  /**
+   * Generates the HTML shell of the webview; the timeline itself is rendered
+   * by the script from the data posted by postDay
+   */
+  private getHtmlForWebview(webview: vscode.Webview): string {
+    const assetsUri = vscode.Uri.joinPath(this.extensionUri, "src", "assets");
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(assetsUri, "timeline.js"),
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(assetsUri, "timeline.css"),
+    );
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link href="${styleUri}" rel="stylesheet">
+  <title>Time Tracking Timeline</title>
+</head>
+<body>
+  <div class="toolbar">
+    <button id="previous-day" title="Previous day">&lsaquo;</button>
+    <button id="today">Today</button>
+    <button id="next-day" title="Next day">&rsaquo;</button>
+    <h2 id="day-title"></h2>
+    <label>
+      Color by
+      <select id="color-by">
+        <option value="project">Project</option>
+        <option value="category">Category</option>
+      </select>
+    </label>
+  </div>
+  <div id="timeline" class="timeline">
+    <div id="hours" class="hours"></div>
+    <div id="track" class="track"></div>
+  </div>
+  <div id="details" class="details"></div>
+  <div id="legend" class="legend"></div>
+  <p class="hint">Drag the edges of a session to change its start or end. Click a session to select it, or a gap to fill it.</p>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,153 @@
+import * as vscode from "vscode";
+import type { WebhookDelivery, WebhookOutbox } from "../services/webhookOutbox";
+import { formatDate, formatTime } from "../utils/timeUtils";
+
+/**
+ * Quick pick item for a queued or dead-lettered delivery, or an action on
+ * all of them
+ */
+interface QueuePickItem extends vscode.QuickPickItem {
+  delivery?: WebhookDelivery;
+  dead?: boolean;
+  action?: "retryAll" | "replayAll";
+}
+
+/**
+ * Gets the event type of a delivery
+ * Deliveries queued by older versions only have it in an untemplated payload
+ */
+function getEventType(delivery: WebhookDelivery): string {
+  if (delivery.type) {
+    return delivery.type;
+  }
+  try {
+    return JSON.parse(delivery.payload).type ?? "Unknown event";
+  } catch {
+    return "Unknown event";
+  }
+}
+
+/**
+ * Formats a unix time in milliseconds as day and time
+ */
+function formatMoment(time: number): string {
+  const date = new Date(time);
+  return `${formatDate(date)} ${formatTime(date)}`;
+}
+
+/**
+ * Creates the quick pick item of a delivery
+ */
+function toPickItem(delivery: WebhookDelivery, dead: boolean): QueuePickItem {
+  const status = dead
+    ? `Gave up after ${delivery.attempts} attempts`
+    : delivery.attempts > 0
+      ? `${delivery.attempts} failed attempts, next at ${formatMoment(delivery.nextAttemptAt)}`
+      : "Sending";
+  return {
+    label: `${dead ? "$(error)" : "$(clock)"} ${getEventType(delivery)}`,
+    description: `${formatMoment(delivery.createdAt)} - ${delivery.endpoint ?? delivery.url}`,
+    detail: delivery.lastError ? `${status}: ${delivery.lastError}` : status,
+    delivery,
+    dead,
+  };
+}
+
+/**
+ * Shows the webhook events waiting to be delivered and the ones that were
+ * given up on, and lets the user retry, replay or discard them
+ * @param outbox Outbox of the webhook service
+ */
+export async function showWebhookQueue(outbox: WebhookOutbox): Promise<void> {
+  const pending = outbox.getPending();
+  const dead = outbox.getDeadLetters();
+  if (pending.length === 0 && dead.length === 0) {
+    vscode.window.showInformationMessage(
+      "No webhook events are waiting to be delivered.",
+    );
+    return;
+  }
+
+  const separator = (label: string): QueuePickItem => ({
+    label,
+    kind: vscode.QuickPickItemKind.Separator,
+  });
+  const items: QueuePickItem[] = [];
+  if (pending.length > 0) {
+    items.push(
+      separator("Queued"),
+      { label: "$(sync) Retry All Now", action: "retryAll" },
+      ...pending.map((delivery) => toPickItem(delivery, false)),
+    );
+  }
+  if (dead.length > 0) {
+    items.push(
+      separator("Failed"),
+      { label: "$(debug-restart) Replay All Failed", action: "replayAll" },
+      ...dead.map((delivery) => toPickItem(delivery, true)),
+    );
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select a webhook event to retry, replay or discard",
+    matchOnDescription: true,
+  });
+  if (!picked) {
+    return;
+  }
+
+  try {
+    if (picked.action === "retryAll") {
+      await outbox.retryNow();
+    } else if (picked.action === "replayAll") {
+      await outbox.replay();
+    } else if (picked.delivery) {
+      await handleDelivery(outbox, picked.delivery, picked.dead === true);
+      return;
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to deliver webhook events: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+
+  showRemaining(outbox);
+}
+
+/**
+ * Asks what to do with a single delivery and does it
+ */
+async function handleDelivery(
+  outbox: WebhookOutbox,
+  delivery: WebhookDelivery,
+  dead: boolean,
+): Promise<void> {
+  const send = dead ? "Replay" : "Retry Now";
+  const action = await vscode.window.showQuickPick([send, "Discard"], {
+    placeHolder: `${getEventType(delivery)} queued ${formatMoment(delivery.createdAt)}`,
+  });
+
+  if (action === "Discard") {
+    outbox.discard([delivery.id], dead);
+    vscode.window.showInformationMessage("Webhook event discarded.");
+  } else if (action === send) {
+    await (dead
+      ? outbox.replay([delivery.id])
+      : outbox.retryNow([delivery.id]));
+    showRemaining(outbox);
+  }
+}
+
+/**
+ * Reports how many events are still waiting after a retry
+ */
+function showRemaining(outbox: WebhookOutbox): void {
+  const pending = outbox.getPending().length;
+  const dead = outbox.getDeadLetters().length;
+  vscode.window.showInformationMessage(
+    pending === 0 && dead === 0
+      ? "All webhook events were delivered."
+      : `${pending} webhook events are still queued and ${dead} failed.`,
+  );
+}
@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import type {
+  WebhookEndpoint,
+  WebhookService,
+} from "../services/webhookService";
+import { validateWebhookSecrets } from "../services/webhookSignature";
+
+/**
+ * Quick pick item for the endpoint whose secret is set
+ */
+interface EndpointPickItem extends vscode.QuickPickItem {
+  endpoint?: WebhookEndpoint; // undefined for the webhookUrl endpoint
+}
+
+/**
+ * Asks for the secret of a webhook endpoint and stores it in VS Code's
+ * secret storage
+ * @param webhookService Service sending the webhook events
+ */
+export async function setWebhookSecret(
+  webhookService: WebhookService,
+): Promise<void> {
+  const endpoints = webhookService
+    .getEndpoints()
+    .filter((endpoint) => !endpoint.legacy);
+  const webhookUrl = vscode.workspace
+    .getConfiguration("timeTracking")
+    .get<string>("webhookUrl");
+
+  // The webhookUrl endpoint can get a secret before its URL is set
+  let picked: EndpointPickItem | undefined = {
+    label: "Default Endpoint",
+    description: webhookUrl || "timeTracking.webhookUrl",
+  };
+  if (endpoints.length > 0) {
+    picked = await vscode.window.showQuickPick(
+      [
+        picked,
+        ...endpoints.map((endpoint) => ({
+          label: endpoint.name || endpoint.url,
+          description: endpoint.name ? endpoint.url : undefined,
+          endpoint,
+        })),
+      ],
+      { placeHolder: "Select the webhook endpoint to set the secret for" },
+    );
+    if (!picked) {
+      return;
+    }
+  }
+
+  const secret = await vscode.window.showInputBox({
+    title: `Webhook Secret: ${picked.label}`,
+    prompt:
+      "Secret in the Standard Webhooks format (whsec_ followed by a base64 key). Separate several secrets with spaces to rotate; leave empty to remove the secret.",
+    placeHolder: "whsec_...",
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: validateWebhookSecrets,
+  });
+  if (secret === undefined) {
+    return;
+  }
+
+  try {
+    await webhookService.setSecret(picked.endpoint, secret);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to save webhook secret: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+
+  // The secret of an unnamed endpoint is stored under its URL
+  if (secret.trim() && picked.endpoint && !picked.endpoint.name) {
+    vscode.window.showWarningMessage(
+      `Webhook secret for ${picked.label} saved. The endpoint has no name, so its secret must be set again if its URL changes; give it a name in timeTracking.webhooks to keep the secret.`,
+    );
+    return;
+  }
+  vscode.window.showInformationMessage(
+    secret.trim()
+      ? `Webhook secret for ${picked.label} saved.`
+      : `Webhook secret for ${picked.label} removed.`,
+  );
+}
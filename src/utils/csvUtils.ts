@@ -0,0 +1,106 @@
+/**
+ * Escapes special characters in CSV fields
+ * @param value Field value to escape
+ */
+export function escapeCSV(value: string | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const stringValue = String(value);
+  // If the string contains commas, quotes, or newlines, wrap it in quotes and escape any quotes
+  if (
+    stringValue.includes(",") ||
+    stringValue.includes('"') ||
+    stringValue.includes("\n")
+  ) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  return stringValue;
+}
+
+/**
+ * Parse CSV value, handling quoted strings
+ * @param value Raw field value
+ */
+export function parseCSVValue(value: string): string {
+  if (value === "") {
+    return "";
+  }
+
+  if (value.startsWith('"') && value.endsWith('"')) {
+    // Remove quotes and handle escaped quotes
+    return value.substring(1, value.length - 1).replace(/""/g, '"');
+  }
+
+  return value;
+}
+
+/**
+ * Parse a CSV line into an array of fields
+ * @param line Line to parse
+ */
+export function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let inQuotes = false;
+  let currentField = "";
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
+        // Handle escaped quote
+        currentField += '"';
+        i++; // Skip next quote
+      } else {
+        // Toggle quotes mode
+        inQuotes = !inQuotes;
+      }
+    } else if (char === "," && !inQuotes) {
+      // End of field
+      result.push(currentField);
+      currentField = "";
+    } else {
+      // Add character to current field
+      currentField += char;
+    }
+  }
+
+  // Add the last field
+  result.push(currentField);
+
+  return result;
+}
+
+/**
+ * Parse CSV content into records keyed by the header row
+ * Quoted fields may span lines, and a leading byte order mark is ignored
+ * @param content CSV content including the header row
+ */
+export function parseCSVRecords(content: string): Record<string, string>[] {
+  const lines = content.replace(/^\ufeff/, "").split(/\r?\n/);
+  const rows: string[][] = [];
+  let pending = "";
+
+  for (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line;
+    // An odd number of quotes means a quoted field continues on the next line
+    if ((pending.match(/"/g)?.length ?? 0) % 2 === 1) {
+      continue;
+    }
+    if (pending.trim()) {
+      rows.push(parseCSVLine(pending));
+    }
+    pending = "";
+  }
+
+  const [header, ...records] = rows;
+  if (!header) {
+    return [];
+  }
+  return records.map((fields) =>
+    Object.fromEntries(
+      header.map((name, index) => [name.trim(), fields[index] ?? ""]),
+    ),
+  );
+}
@@ -0,0 +1,195 @@
+import { addDays, formatDate, getStartOfDay, parseDayKey } from "./timeUtils";
+
+/**
+ * Predefined date ranges, relative to the current day
+ */
+export type DateRangePreset =
+  | "today"
+  | "last7Days"
+  | "last14Days"
+  | "last30Days"
+  | "thisWeek"
+  | "lastMonth"
+  | "thisQuarter"
+  | "yearToDate";
+
+/**
+ * Range of whole days in the day bucketing time zone
+ */
+export interface DateRange {
+  start: string; // first day, YYYY-MM-DD
+  end: string; // last day (inclusive), YYYY-MM-DD
+  preset?: DateRangePreset; // undefined for a custom range
+}
+
+/**
+ * Presets in the order they are offered, with their labels
+ */
+export const DATE_RANGE_PRESETS: { preset: DateRangePreset; label: string }[] =
+  [
+    { preset: "today", label: "Today" },
+    { preset: "last7Days", label: "Last 7 Days" },
+    { preset: "last14Days", label: "Last 14 Days" },
+    { preset: "last30Days", label: "Last 30 Days" },
+    { preset: "thisWeek", label: "This Week" },
+    { preset: "lastMonth", label: "Last Month" },
+    { preset: "thisQuarter", label: "This Quarter" },
+    { preset: "yearToDate", label: "Year to Date" },
+  ];
+
+/**
+ * Creates a day key from calendar fields, normalizing overflowing months
+ * and days like Date.UTC does
+ */
+function toDayKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().split("T")[0];
+}
+
+/**
+ * Gets the last day of a month; months past December roll over into the
+ * following years
+ */
+function getEndOfMonth(year: number, month: number): string {
+  return toDayKey(year, month + 1, 0);
+}
+
+/**
+ * Gets the range of a preset
+ * @param preset The preset
+ * @param today Current day, YYYY-MM-DD
+ */
+export function getPresetRange(
+  preset: DateRangePreset,
+  today = formatDate(new Date()),
+): DateRange {
+  const [year, month, day] = parseDayKey(today);
+
+  switch (preset) {
+    case "today":
+      return { start: today, end: today, preset };
+    case "last7Days":
+      return { start: addDays(today, -6), end: today, preset };
+    case "last14Days":
+      return { start: addDays(today, -13), end: today, preset };
+    case "last30Days":
+      return { start: addDays(today, -29), end: today, preset };
+    case "thisWeek": {
+      // Weeks run from Monday to Sunday
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      const start = addDays(today, -((weekday + 6) % 7));
+      return { start, end: addDays(start, 6), preset };
+    }
+    case "lastMonth":
+      return {
+        start: toDayKey(year, month - 1, 1),
+        end: getEndOfMonth(year, month - 1),
+        preset,
+      };
+    case "thisQuarter": {
+      const firstMonth = month - ((month - 1) % 3);
+      return {
+        start: toDayKey(year, firstMonth, 1),
+        end: getEndOfMonth(year, firstMonth + 2),
+        preset,
+      };
+    }
+    case "yearToDate":
+      return { start: toDayKey(year, 1, 1), end: today, preset };
+  }
+}
+
+/**
+ * Creates a custom range, swapping the days if they are in reverse order
+ * @param start First day, YYYY-MM-DD
+ * @param end Last day (inclusive), YYYY-MM-DD
+ */
+export function createCustomRange(start: string, end: string): DateRange {
+  return start <= end ? { start, end } : { start: end, end: start };
+}
+
+/**
+ * Recomputes a preset range for the current day, so a report left open
+ * overnight moves along; custom ranges are returned unchanged
+ */
+export function refreshDateRange(
+  range: DateRange,
+  today = formatDate(new Date()),
+): DateRange {
+  return range.preset ? getPresetRange(range.preset, today) : range;
+}
+
+/**
+ * Gets the preset a range corresponds to on the current day, if any
+ */
+export function findMatchingPreset(
+  range: DateRange,
+  today = formatDate(new Date()),
+): DateRangePreset | undefined {
+  return DATE_RANGE_PRESETS.find(({ preset }) => {
+    const presetRange = getPresetRange(preset, today);
+    return presetRange.start === range.start && presetRange.end === range.end;
+  })?.preset;
+}
+
+/**
+ * Moves a range to the previous or next period of the same kind
+ * Ranges of whole calendar months (like a month or quarter) move by months,
+ * year to date moves to whole years, and other ranges move by their length
+ * @param range Range to move
+ * @param direction -1 for the previous period, 1 for the next one
+ * @returns The moved range, which is a custom range
+ */
+export function shiftDateRange(range: DateRange, direction: -1 | 1): DateRange {
+  const [startYear, startMonth, startDay] = parseDayKey(range.start);
+  const end =
+    range.preset === "yearToDate" ? toDayKey(startYear, 12, 31) : range.end;
+  const [endYear, endMonth] = parseDayKey(end);
+
+  if (startDay === 1 && end === getEndOfMonth(endYear, endMonth)) {
+    const months = (endYear - startYear) * 12 + endMonth - startMonth + 1;
+    const firstMonth = startMonth + direction * months;
+    return {
+      start: toDayKey(startYear, firstMonth, 1),
+      end: getEndOfMonth(startYear, firstMonth + months - 1),
+    };
+  }
+
+  const days = getDateRangeLength(range) * direction;
+  return { start: addDays(range.start, days), end: addDays(range.end, days) };
+}
+
+/**
+ * Gets the number of days in a range
+ */
+export function getDateRangeLength(range: DateRange): number {
+  const [startYear, startMonth, startDay] = parseDayKey(range.start);
+  const [endYear, endMonth, endDay] = parseDayKey(range.end);
+  const days =
+    (Date.UTC(endYear, endMonth - 1, endDay) -
+      Date.UTC(startYear, startMonth - 1, startDay)) /
+    (24 * 60 * 60 * 1000);
+  return days + 1;
+}
+
+/**
+ * Gets the first and last day of a range as dates, in the form the session
+ * queries take them
+ */
+export function getDateRangeDates(range: DateRange): {
+  startDate: Date;
+  endDate: Date;
+} {
+  return {
+    startDate: getStartOfDay(range.start),
+    endDate: getStartOfDay(range.end),
+  };
+}
+
+/**
+ * Formats a range for display, e.g. "2024-03-01 - 2024-03-31"
+ */
+export function formatDateRange(range: DateRange): string {
+  return range.start === range.end
+    ? range.start
+    : `${range.start} - ${range.end}`;
+}
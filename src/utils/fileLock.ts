@@ -0,0 +1,165 @@
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+
+/**
+ * Options for acquiring a file lock
+ */
+export interface FileLockOptions {
+  /** How long to wait for the lock before giving up (ms) */
+  timeoutMs?: number;
+  /**
+   * Age after which a lock of a running process is considered abandoned,
+   * as its process id may have been reused after a crash (ms)
+   */
+  staleMs?: number;
+  /** Delay between attempts to acquire the lock (ms) */
+  retryDelayMs?: number;
+}
+
+/**
+ * Thrown when a file lock could not be acquired in time
+ */
+export class FileLockTimeoutError extends Error {
+  constructor(public readonly lockPath: string) {
+    super(`Timed out waiting for lock ${lockPath}`);
+    this.name = "FileLockTimeoutError";
+  }
+}
+
+/**
+ * Checks whether a process with the given id is still running
+ * @param pid Process id to check
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// Age after which a lock file without readable content is removed; the
+// content is written right after the file is created
+const UNREADABLE_LOCK_MS = 10000;
+
+/**
+ * Blocks the current thread for a short time
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Reads the owner of a lock file
+ * @returns The lock content, or undefined if the lock is gone or unreadable
+ */
+function readLock(
+  lockPath: string,
+): { pid: number; createdAt: number; token: string } | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a file was last modified longer ago than the given age
+ */
+function isOlderThan(filePath: string, ageMs: number): boolean {
+  try {
+    return Date.now() - fs.statSync(filePath).mtimeMs > ageMs;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes a lock file if it still has the given token
+ */
+function removeLock(lockPath: string, token: string | undefined): void {
+  if (readLock(lockPath)?.token !== token) {
+    return;
+  }
+
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Runs an action while holding an exclusive, cross-process lock on a file
+ *
+ * The lock is a `<filePath>.lock` file created exclusively, so it works across
+ * VS Code windows. Locks left behind by a crashed process are taken over.
+ * A lock of a running process is kept however long the action takes, unless
+ * it is older than `staleMs`, which only happens if the process id was
+ * reused after the holder crashed.
+ * @param filePath The file to lock
+ * @param action The action to run while the lock is held
+ * @param options Timing options
+ */
+export function withFileLock<T>(
+  filePath: string,
+  action: () => T,
+  options: FileLockOptions = {},
+): T {
+  const {
+    timeoutMs = 5000,
+    staleMs = 5 * 60 * 1000,
+    retryDelayMs = 10,
+  } = options;
+  const lockPath = `${filePath}.lock`;
+  const token = crypto.randomUUID();
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      fs.writeFileSync(
+        lockPath,
+        JSON.stringify({ pid: process.pid, createdAt: Date.now(), token }),
+        { flag: "wx" },
+      );
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    // Take over locks whose owner crashed; the age only matters for locks
+    // whose process id was reused by a running process
+    const owner = readLock(lockPath);
+    if (
+      owner &&
+      ((owner.pid !== process.pid && !isProcessAlive(owner.pid)) ||
+        Date.now() - owner.createdAt > staleMs)
+    ) {
+      removeLock(lockPath, owner.token);
+      continue;
+    }
+
+    // A lock without readable content was left by a crash while creating it
+    if (!owner && isOlderThan(lockPath, UNREADABLE_LOCK_MS)) {
+      removeLock(lockPath, undefined);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new FileLockTimeoutError(lockPath);
+    }
+    sleep(retryDelayMs);
+  }
+
+  try {
+    return action();
+  } finally {
+    removeLock(lockPath, token);
+  }
+}
@@ -0,0 +1,107 @@
+import * as vscode from "vscode";
+
+/**
+ * Tracks whether the VS Code window is focused, so time can be split into
+ * focused and unfocused segments
+ */
+export class FocusTracker {
+  private enabled = false;
+  private gracePeriod = 30000; // in milliseconds
+  private graceTimer: NodeJS.Timeout | undefined;
+  private reportedUnfocused = false;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * Creates a new focus tracker
+   * @param onFocusChanged Callback when the tracked focus state changes;
+   * focused is undefined when window focus tracking is disabled
+   */
+  constructor(
+    private onFocusChanged: (focused: boolean | undefined, at: Date) => void,
+  ) {
+    this.updateFromConfig();
+
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState((state) =>
+        this.handleWindowStateChange(state.focused),
+      ),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("timeTracking.trackWindowFocus") ||
+          e.affectsConfiguration("timeTracking.focusGracePeriod")
+        ) {
+          this.updateFromConfig();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Handles the window gaining or losing focus
+   * Losing focus is only reported once the grace period has passed, so quick
+   * switches to a browser or terminal keep counting as focused time
+   */
+  private handleWindowStateChange(focused: boolean): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    if (focused) {
+      if (this.graceTimer) {
+        clearTimeout(this.graceTimer);
+        this.graceTimer = undefined;
+      } else if (this.reportedUnfocused) {
+        this.reportedUnfocused = false;
+        this.onFocusChanged(true, new Date());
+      }
+    } else if (!this.graceTimer && !this.reportedUnfocused) {
+      const focusLostAt = new Date();
+      this.graceTimer = setTimeout(() => {
+        this.graceTimer = undefined;
+        this.reportedUnfocused = true;
+        this.onFocusChanged(false, focusLostAt);
+      }, this.gracePeriod);
+    }
+  }
+
+  /**
+   * Updates the enabled state and grace period from extension configuration
+   */
+  private updateFromConfig(): void {
+    const config = vscode.workspace.getConfiguration("timeTracking");
+    const enabled = config.get<boolean>("trackWindowFocus", false);
+    this.gracePeriod = config.get<number>("focusGracePeriod", 30) * 1000;
+
+    if (enabled === this.enabled) {
+      return;
+    }
+
+    this.enabled = enabled;
+    this.reset();
+    this.onFocusChanged(
+      enabled ? vscode.window.state.focused : undefined,
+      new Date(),
+    );
+    this.reportedUnfocused = enabled && !vscode.window.state.focused;
+  }
+
+  /**
+   * Cancels a pending focus loss
+   */
+  private reset(): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = undefined;
+    }
+    this.reportedUnfocused = false;
+  }
+
+  /**
+   * Disposes all registered event listeners
+   */
+  public dispose(): void {
+    this.reset();
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,175 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as vscode from "vscode";
+
+/**
+ * Git state of a repository at a point in time
+ */
+export interface GitContext {
+  repositoryRoot: string;
+  branch?: string; // undefined for a detached HEAD
+  commit?: string; // undefined in a repository without commits
+}
+
+/**
+ * Finds the root of the git repository containing a file or directory
+ * @param fileOrDirectory Path inside the repository
+ * @returns The repository root, or undefined if the path is not in a repository
+ */
+export function findRepositoryRoot(
+  fileOrDirectory: string,
+): string | undefined {
+  // Untitled files have no path on disk
+  if (!path.isAbsolute(fileOrDirectory)) {
+    return undefined;
+  }
+
+  let directory = fileOrDirectory;
+
+  while (true) {
+    if (fs.existsSync(path.join(directory, ".git"))) {
+      return directory;
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Gets the git directory of a repository
+ * In a worktree or submodule `.git` is a file pointing to the real directory
+ */
+function getGitDirectory(repositoryRoot: string): string {
+  const dotGit = path.join(repositoryRoot, ".git");
+
+  if (fs.statSync(dotGit).isFile()) {
+    const match = fs.readFileSync(dotGit, "utf8").match(/^gitdir:\s*(.+)$/m);
+    if (match) {
+      return path.resolve(repositoryRoot, match[1].trim());
+    }
+  }
+
+  return dotGit;
+}
+
+/**
+ * Gets the directory holding the refs shared by all worktrees
+ */
+function getCommonDirectory(gitDirectory: string): string {
+  const commonDirFile = path.join(gitDirectory, "commondir");
+
+  if (fs.existsSync(commonDirFile)) {
+    return path.resolve(
+      gitDirectory,
+      fs.readFileSync(commonDirFile, "utf8").trim(),
+    );
+  }
+
+  return gitDirectory;
+}
+
+/**
+ * Resolves a ref like `refs/heads/main` to a commit hash
+ * Loose ref files take precedence over the packed-refs file
+ */
+function resolveRef(gitDirectory: string, ref: string): string | undefined {
+  for (const directory of [gitDirectory, getCommonDirectory(gitDirectory)]) {
+    const refFile = path.join(directory, ref);
+    if (fs.existsSync(refFile)) {
+      return fs.readFileSync(refFile, "utf8").trim();
+    }
+  }
+
+  const packedRefs = path.join(getCommonDirectory(gitDirectory), "packed-refs");
+  if (fs.existsSync(packedRefs)) {
+    for (const line of fs.readFileSync(packedRefs, "utf8").split(/\r?\n/)) {
+      const [commit, name] = line.split(" ");
+      if (name === ref) {
+        return commit;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the current branch and HEAD commit of a repository
+ * @param repositoryRoot Root of the repository
+ * @returns The git context, or undefined if it can't be read
+ */
+export function readGitContext(repositoryRoot: string): GitContext | undefined {
+  try {
+    const gitDirectory = getGitDirectory(repositoryRoot);
+    const head = fs
+      .readFileSync(path.join(gitDirectory, "HEAD"), "utf8")
+      .trim();
+
+    const ref = head.match(/^ref:\s*(.+)$/)?.[1];
+    if (!ref) {
+      // Detached HEAD contains the commit hash itself
+      return { repositoryRoot, commit: head };
+    }
+
+    return {
+      repositoryRoot,
+      branch: ref.replace(/^refs\/heads\//, ""),
+      commit: resolveRef(gitDirectory, ref),
+    };
+  } catch (error) {
+    console.error("Failed to read git HEAD:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Gets the commit a branch points to
+ * @param repositoryRoot Root of the repository
+ * @param branch Name of the branch
+ */
+export function getBranchCommit(
+  repositoryRoot: string,
+  branch: string,
+): string | undefined {
+  try {
+    return resolveRef(getGitDirectory(repositoryRoot), `refs/heads/${branch}`);
+  } catch (error) {
+    console.error("Failed to read git branch:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Gets the git context of the repository containing a file or directory
+ * @param fileOrDirectory Path inside the repository
+ */
+export function getGitContext(fileOrDirectory: string): GitContext | undefined {
+  const repositoryRoot = findRepositoryRoot(fileOrDirectory);
+  return repositoryRoot ? readGitContext(repositoryRoot) : undefined;
+}
+
+/**
+ * Watches the HEAD file of a repository, which changes on checkout
+ * @param repositoryRoot Root of the repository
+ * @param onChange Callback when HEAD has changed
+ */
+export function watchGitHead(
+  repositoryRoot: string,
+  onChange: () => void,
+): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(
+      vscode.Uri.file(getGitDirectory(repositoryRoot)),
+      "HEAD",
+    ),
+  );
+
+  watcher.onDidChange(onChange);
+  watcher.onDidCreate(onChange);
+
+  return watcher;
+}
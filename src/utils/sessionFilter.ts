@@ -0,0 +1,91 @@
+import * as path from "node:path";
+import type { TimeSession } from "../models/timeTracker";
+
+/**
+ * Values a session must match to be shown in a report
+ * An empty or missing list doesn't filter on that field
+ */
+export interface SessionFilter {
+  projects?: string[];
+  categories?: string[];
+  extensions?: string[];
+  branches?: string[];
+}
+
+/**
+ * Dimensions a session filter can select values from
+ */
+export type SessionFilterField = keyof SessionFilter;
+
+// Values for sessions without a category, file extension or branch
+export const NO_CATEGORY = "Uncategorized";
+export const NO_EXTENSION = "No extension";
+export const NO_BRANCH = "No branch";
+
+/**
+ * Gets the value of a session for a filter field
+ */
+export function getFilterValue(
+  session: TimeSession,
+  field: SessionFilterField,
+): string {
+  switch (field) {
+    case "projects":
+      return session.project;
+    case "categories":
+      return session.category || NO_CATEGORY;
+    case "extensions":
+      return path.extname(session.fileName).toLowerCase() || NO_EXTENSION;
+    case "branches":
+      return session.branch || NO_BRANCH;
+  }
+}
+
+/**
+ * Checks whether a filter selects any values
+ */
+export function isFilterActive(filter: SessionFilter): boolean {
+  return Object.values(filter).some((values) => values && values.length > 0);
+}
+
+/**
+ * Keeps the sessions that match every field of a filter
+ * @param sessions Sessions to filter
+ * @param filter Values to match; sessions match a field if it has no values
+ */
+export function applySessionFilter(
+  sessions: TimeSession[],
+  filter: SessionFilter,
+): TimeSession[] {
+  const fields = (Object.keys(filter) as SessionFilterField[]).filter(
+    (field) => (filter[field]?.length ?? 0) > 0,
+  );
+
+  return sessions.filter((session) =>
+    fields.every((field) =>
+      filter[field]?.includes(getFilterValue(session, field)),
+    ),
+  );
+}
+
+/**
+ * Gets the values of each filter field that occur in a list of sessions
+ * Branches are only offered if some sessions were tracked in a repository
+ */
+export function getFilterOptions(
+  sessions: TimeSession[],
+): Record<SessionFilterField, string[]> {
+  const values = (field: SessionFilterField) =>
+    [
+      ...new Set(sessions.map((session) => getFilterValue(session, field))),
+    ].sort((a, b) => a.localeCompare(b));
+
+  return {
+    projects: values("projects"),
+    categories: values("categories"),
+    extensions: values("extensions"),
+    branches: sessions.some((session) => session.branch)
+      ? values("branches")
+      : [],
+  };
+}
@@ -0,0 +1,45 @@
+import * as vscode from "vscode";
+
+/**
+ * Gets the configured ticket key patterns
+ * Invalid patterns are skipped
+ */
+export function getTicketPatterns(): RegExp[] {
+  const patterns = vscode.workspace
+    .getConfiguration("timeTracking")
+    .get<string[]>("ticketPatterns", ["[A-Z][A-Z0-9]+-\\d+", "#\\d+"]);
+
+  return patterns.flatMap((pattern) => {
+    try {
+      return [new RegExp(pattern)];
+    } catch (error) {
+      console.error(`Invalid ticket pattern "${pattern}":`, error);
+      return [];
+    }
+  });
+}
+
+/**
+ * Extracts the first ticket key from a text, e.g. a branch name or notes
+ * Patterns are tried in order, so earlier patterns take precedence
+ * @param text Text to search
+ * @param patterns Ticket key patterns
+ * @returns The ticket key, or undefined if the text contains none
+ */
+export function extractTicket(
+  text: string | undefined,
+  patterns: RegExp[],
+): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return match[0];
+    }
+  }
+
+  return undefined;
+}
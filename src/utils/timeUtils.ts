@@ -1,3 +1,5 @@
+import type { TimeSession } from "../models/timeTracker";
+
 /**
  * Formats a duration in milliseconds to a human-readable string (HH:MM:SS)
  * @param milliseconds Duration in milliseconds
@@ -30,12 +32,284 @@ export function formatDurationShort(milliseconds: number): string {
   return `${minutes}m`;
 }
 
+// Time zone used to decide which day a moment belongs to (undefined = system local time)
+let dayTimeZone: string | undefined;
+
 /**
- * Gets a date formatted as YYYY-MM-DD
+ * Sets the time zone used for day bucketing
+ * @param timeZone IANA time zone name, or empty for the system's local time
+ * @returns false if the time zone is not supported (local time is used instead)
+ */
+export function setDayTimeZone(timeZone: string | undefined): boolean {
+  if (!timeZone) {
+    dayTimeZone = undefined;
+    return true;
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    dayTimeZone = timeZone;
+    return true;
+  } catch {
+    dayTimeZone = undefined;
+    return false;
+  }
+}
+
+/**
+ * Gets the calendar fields of a date in the day bucketing time zone
+ */
+function getZonedParts(date: Date): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+} {
+  if (!dayTimeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: dayTimeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Splits a YYYY-MM-DD day key into its numeric parts
+ */
+export function parseDayKey(dayKey: string): [number, number, number] {
+  const [year, month, day] = dayKey.split("-").map(Number);
+  return [year, month, day];
+}
+
+/**
+ * Gets a date formatted as YYYY-MM-DD, the day it falls on in the
+ * day bucketing time zone
  * @param date Date to format
  */
 export function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0];
+  const { year, month, day } = getZonedParts(date);
+  return [
+    year.toString().padStart(4, "0"),
+    month.toString().padStart(2, "0"),
+    day.toString().padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Gets the time of day of a date formatted as HH:MM in the day bucketing
+ * time zone
+ * @param date Date to format
+ */
+export function formatTime(date: Date): string {
+  const { hour, minute } = getZonedParts(date);
+  return [
+    hour.toString().padStart(2, "0"),
+    minute.toString().padStart(2, "0"),
+  ].join(":");
+}
+
+/**
+ * Gets the moment a day starts (midnight in the day bucketing time zone)
+ * @param dayKey Day formatted as YYYY-MM-DD
+ */
+export function getStartOfDay(dayKey: string): Date {
+  return getTimeOnDay(dayKey, 0, 0);
+}
+
+/**
+ * Gets the moment a time of day occurs on a day in the day bucketing time zone
+ * @param dayKey Day formatted as YYYY-MM-DD
+ * @param hour Hour (0-23)
+ * @param minute Minute (0-59)
+ */
+export function getTimeOnDay(
+  dayKey: string,
+  hour: number,
+  minute: number,
+): Date {
+  const [year, month, day] = parseDayKey(dayKey);
+
+  if (!dayTimeZone) {
+    return new Date(year, month - 1, day, hour, minute);
+  }
+
+  // Correct the time read as UTC by the zone's offset, twice to settle on
+  // the right side of a daylight saving transition
+  const utcTime = Date.UTC(year, month - 1, day, hour, minute);
+  let time = utcTime;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(time));
+    const zonedAsUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    );
+    time = utcTime - (zonedAsUtc - Math.floor(time / 1000) * 1000);
+  }
+  return new Date(time);
+}
+
+/**
+ * Adds a number of calendar days to a day key
+ * @param dayKey Day formatted as YYYY-MM-DD
+ * @param days Number of days to add (may be negative)
+ */
+export function addDays(dayKey: string, days: number): string {
+  const [year, month, day] = parseDayKey(dayKey);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Gets the day keys (YYYY-MM-DD) of all days from the start date to the end date
+ * @param startDate First date of the range
+ * @param endDate Last date of the range (inclusive)
+ */
+export function getDayKeysInRange(startDate: Date, endDate: Date): string[] {
+  const dayKeys: string[] = [];
+  const lastDay = formatDate(endDate);
+
+  for (let day = formatDate(startDate); day <= lastDay; day = addDays(day, 1)) {
+    dayKeys.push(day);
+  }
+
+  return dayKeys;
+}
+
+/**
+ * Splits a session at the day boundaries it crosses
+ * Each segment gets its own id and the original session's id as parent id,
+ * so it is filed under and counted toward the day it belongs to; segments of
+ * an edited segment keep the id of the session it was split from
+ * @param session Ended session to split
+ * @returns The session itself if it lies within a single day
+ */
+export function splitSessionAtDayBoundaries(
+  session: TimeSession,
+): TimeSession[] {
+  if (!session.endTime) {
+    return [session];
+  }
+
+  // A session ending exactly at midnight doesn't reach into the next day
+  const lastMoment = new Date(
+    Math.max(session.startTime.getTime(), session.endTime.getTime() - 1),
+  );
+  const dayKeys = getDayKeysInRange(session.startTime, lastMoment);
+  if (dayKeys.length <= 1) {
+    return [session];
+  }
+
+  return dayKeys.map((dayKey, index) => {
+    const startTime = index === 0 ? session.startTime : getStartOfDay(dayKey);
+    const endTime =
+      index === dayKeys.length - 1
+        ? (session.endTime as Date)
+        : getStartOfDay(addDays(dayKey, 1));
+
+    return {
+      ...session,
+      id: `${session.id}-${index + 1}`,
+      parentId: session.parentId ?? session.id,
+      startTime,
+      endTime,
+      duration: endTime.getTime() - startTime.getTime(),
+    };
+  });
+}
+
+/**
+ * Merges two adjacent sessions into the earlier one; the details of the
+ * earlier session are kept and notes are combined
+ * The merged session runs from the start of the first to the end of the
+ * second, and like every ended session lasts exactly that long
+ * @param first The earlier session
+ * @param second The later session
+ * @throws If one session is focused and the other isn't
+ */
+export function mergeAdjacentSessions(
+  first: TimeSession,
+  second: TimeSession,
+): TimeSession {
+  if (isFocusedSession(first) !== isFocusedSession(second)) {
+    throw new Error("Focused and unfocused sessions can't be merged");
+  }
+
+  const endTime = second.endTime ?? first.endTime;
+  const notes = [first.notes, second.notes].filter(Boolean);
+  return {
+    ...first,
+    endTime,
+    duration: endTime
+      ? endTime.getTime() - first.startTime.getTime()
+      : first.duration + second.duration,
+    endCommit: second.endCommit ?? first.endCommit,
+    notes: notes.length > 0 ? [...new Set(notes)].join("; ") : undefined,
+    ticket: first.ticket ?? second.ticket,
+  };
+}
+
+/**
+ * Returns whether a session counts as active time
+ * Only segments recorded while the window was unfocused are excluded;
+ * sessions recorded without window focus tracking always count
+ */
+export function isFocusedSession(session: TimeSession): boolean {
+  return session.focused !== false;
+}
+
+/**
+ * Sums the durations of the sessions that count as active time
+ * @param sessions Sessions to sum
+ */
+export function getFocusedDuration(sessions: TimeSession[]): number {
+  return sessions
+    .filter(isFocusedSession)
+    .reduce((sum, session) => sum + session.duration, 0);
+}
+
+/**
+ * Gets the abbreviated weekday name of a day key
+ * @param dayKey Day formatted as YYYY-MM-DD
+ */
+export function formatWeekday(dayKey: string): string {
+  const [year, month, day] = parseDayKey(dayKey);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(
+    undefined,
+    { weekday: "short", timeZone: "UTC" },
+  );
 }
 
 /**